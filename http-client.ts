@@ -0,0 +1,273 @@
+/**
+ * HTTP for speech providers: typed request errors, a client with timeouts,
+ * retries and cancellation, and the mapping of each provider's error
+ * responses. Kept free of the Obsidian API so it can be tested on its own.
+ */
+
+/**
+ * Base class for errors from a speech provider. status is the HTTP status,
+ * when there was a response.
+ */
+export class TTSRequestError extends Error {
+	status?: number;
+
+	constructor(message: string, status?: number) {
+		super(message);
+		this.name = 'TTSRequestError';
+		this.status = status;
+	}
+}
+
+export class InvalidApiKeyError extends TTSRequestError {
+	constructor(message: string, status?: number) {
+		super(message, status);
+		this.name = 'InvalidApiKeyError';
+	}
+}
+
+export class QuotaExceededError extends TTSRequestError {
+	constructor(message: string, status?: number) {
+		super(message, status);
+		this.name = 'QuotaExceededError';
+	}
+}
+
+export class SafetyBlockedError extends TTSRequestError {
+	reason: string;
+
+	constructor(reason: string) {
+		super(`Request blocked by the provider (${reason})`);
+		this.name = 'SafetyBlockedError';
+		this.reason = reason;
+	}
+}
+
+export class UnknownVoiceError extends TTSRequestError {
+	constructor(message: string, status?: number) {
+		super(message, status);
+		this.name = 'UnknownVoiceError';
+	}
+}
+
+export class RequestTimeoutError extends TTSRequestError {
+	constructor(seconds: number) {
+		super(`Request timed out after ${seconds} seconds`);
+		this.name = 'RequestTimeoutError';
+	}
+}
+
+export class RequestCancelledError extends TTSRequestError {
+	constructor() {
+		super('Request cancelled');
+		this.name = 'RequestCancelledError';
+	}
+}
+
+export class ProviderUnreachableError extends TTSRequestError {
+	constructor(host: string, message: string) {
+		super(`Could not connect to ${host}: ${message}`);
+		this.name = 'ProviderUnreachableError';
+	}
+}
+
+export interface HttpClientOptions {
+	timeoutSeconds: number;
+	maxRetries: number;
+}
+
+/**
+ * Sends provider requests with a timeout on each attempt, and retries 429
+ * and 5xx responses and network failures with exponential backoff. Other
+ * failed responses are turned into errors by the provider's toError, such as
+ * toGeminiError.
+ */
+export class TTSHttpClient {
+	private options: HttpClientOptions;
+
+	constructor(options: HttpClientOptions) {
+		this.options = options;
+	}
+
+	async send(
+		url: string,
+		init: RequestInit,
+		toError: (status: number, statusText: string, body: string) => TTSRequestError,
+		signal?: AbortSignal
+	): Promise<Response> {
+		const { maxRetries } = this.options;
+
+		for (let attempt = 0; ; attempt++) {
+			let response: Response;
+			try {
+				response = await this.fetchWithTimeout(url, init, signal);
+			} catch (error) {
+				if (error instanceof TTSRequestError) throw error;
+				if (attempt >= maxRetries) {
+					throw new ProviderUnreachableError(new URL(url).host, error.message);
+				}
+				console.warn('[Gemini TTS] Network error, retrying:', error.message);
+				await this.sleep(this.backoffDelay(attempt), signal);
+				continue;
+			}
+
+			console.log('[Gemini TTS] API Response Status:', response.status, response.statusText);
+			if (response.ok) {
+				return response;
+			}
+
+			const body = await response.text();
+			console.error('[Gemini TTS] API Error:', response.status, response.statusText, body);
+
+			const retryable = response.status === 429 || response.status >= 500;
+			if (retryable && attempt < maxRetries) {
+				const delay = parseRetryDelay(response.headers.get('Retry-After'), body) ?? this.backoffDelay(attempt);
+				console.log(`[Gemini TTS] Retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1} of ${maxRetries})`);
+				await this.sleep(delay, signal);
+				continue;
+			}
+
+			throw toError(response.status, response.statusText, body);
+		}
+	}
+
+	private async fetchWithTimeout(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+		if (signal?.aborted) throw new RequestCancelledError();
+
+		const { timeoutSeconds } = this.options;
+		const controller = new AbortController();
+		let timedOut = false;
+		const timer = setTimeout(() => {
+			timedOut = true;
+			controller.abort();
+		}, timeoutSeconds * 1000);
+		const onAbort = () => controller.abort();
+		signal?.addEventListener('abort', onAbort);
+
+		try {
+			return await fetch(url, { ...init, signal: controller.signal });
+		} catch (error) {
+			if (timedOut) throw new RequestTimeoutError(timeoutSeconds);
+			if (signal?.aborted) throw new RequestCancelledError();
+			throw error;
+		} finally {
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', onAbort);
+		}
+	}
+
+	private backoffDelay(attempt: number): number {
+		// 1s, 2s, 4s... with jitter, capped at 30s
+		return Math.min(30000, 1000 * Math.pow(2, attempt)) + Math.random() * 250;
+	}
+
+	private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(new RequestCancelledError());
+				return;
+			}
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(new RequestCancelledError());
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve();
+			}, ms);
+			signal?.addEventListener('abort', onAbort, { once: true });
+		});
+	}
+}
+
+// Longest a server can make a retry wait, in milliseconds
+const MAX_RETRY_DELAY = 60000;
+
+/**
+ * Reads the server's requested delay in milliseconds from a Retry-After
+ * header, given in seconds or as an HTTP date, or from the RetryInfo detail
+ * in a Gemini error body. Delays are capped at MAX_RETRY_DELAY.
+ */
+export function parseRetryDelay(header: string | null, body: string, now: number = Date.now()): number | null {
+	if (header && header.trim()) {
+		const seconds = Number(header);
+		const delay = isNaN(seconds) ? Date.parse(header) - now : seconds * 1000;
+		if (!isNaN(delay)) {
+			return Math.min(MAX_RETRY_DELAY, Math.max(0, delay));
+		}
+	}
+
+	const match = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+	return match ? Math.min(MAX_RETRY_DELAY, parseFloat(match[1]) * 1000) : null;
+}
+
+// The "error" object of a Gemini or OpenAI-compatible error body
+interface ErrorBody {
+	message?: string;
+	status?: string;
+	code?: string | number;
+	type?: string;
+	details?: { reason?: string }[];
+}
+
+/**
+ * Reads the message and status/reason codes from an error body, for
+ * providers that answer with {"error": {"message", "status"|"code"|"type"}}.
+ */
+export function parseErrorBody(body: string, fallback: string): { message: string; reason: string } {
+	try {
+		const parsed: unknown = JSON.parse(body);
+		const error = parsed && typeof parsed === 'object' ? (parsed as { error?: unknown }).error : undefined;
+		if (typeof error === 'string') return { message: error, reason: '' };
+		const fields: ErrorBody = error && typeof error === 'object' ? error : {};
+		const details = Array.isArray(fields.details) ? fields.details.map(detail => detail?.reason) : [];
+		return {
+			message: typeof fields.message === 'string' && fields.message ? fields.message : fallback,
+			reason: [fields.status, fields.code, fields.type, ...details].filter(Boolean).join(' ')
+		};
+	} catch {
+		// Not JSON, use the status line
+		return { message: body.trim() || fallback, reason: '' };
+	}
+}
+
+/**
+ * Maps a failed Gemini response to a typed error.
+ */
+export function toGeminiError(status: number, statusText: string, body: string): TTSRequestError {
+	const { message, reason } = parseErrorBody(body, `${status} ${statusText}`);
+
+	if (status === 401 || /API_KEY_INVALID|API key not valid/i.test(`${reason} ${message}`)) {
+		return new InvalidApiKeyError(message, status);
+	}
+	if (status === 403 && /PERMISSION_DENIED/.test(reason)) {
+		return new InvalidApiKeyError(message, status);
+	}
+	if (status === 429 || /RESOURCE_EXHAUSTED/.test(reason)) {
+		return new QuotaExceededError(message, status);
+	}
+	if (status === 400 && /voice/i.test(message)) {
+		return new UnknownVoiceError(message, status);
+	}
+	return new TTSRequestError(`API request failed: ${message}`, status);
+}
+
+/**
+ * Maps a failed response from an OpenAI-compatible server to a typed error.
+ */
+export function toOpenAIError(status: number, statusText: string, body: string): TTSRequestError {
+	const { message, reason } = parseErrorBody(body, `${status} ${statusText}`);
+
+	if (status === 401 || status === 403 || /invalid_api_key/.test(reason)) {
+		return new InvalidApiKeyError(message, status);
+	}
+	if (status === 429 || /insufficient_quota/.test(reason)) {
+		return new QuotaExceededError(message, status);
+	}
+	if (/content_policy|moderation/i.test(`${reason} ${message}`)) {
+		return new SafetyBlockedError(message);
+	}
+	if ((status === 400 || status === 404 || status === 422) && /voice|speaker/i.test(message)) {
+		return new UnknownVoiceError(message, status);
+	}
+	return new TTSRequestError(`Server request failed: ${message}`, status);
+}
@@ -1,966 +1,7051 @@
 import {
 	App,
+	ButtonComponent,
+	debounce,
+	Editor,
+	EditorPosition,
+	FuzzySuggestModal,
+	getAllTags,
 	MarkdownView,
+	Modal,
+	normalizePath,
 	Notice,
+	parseYaml,
 	Plugin,
 	PluginSettingTab,
+	prepareSimpleSearch,
 	Setting,
+	TAbstractFile,
+	TFile,
+	TFolder,
 	ItemView,
 	WorkspaceLeaf
 } from 'obsidian';
+import { StateEffect, StateField } from '@codemirror/state';
+import { Decoration, EditorView } from '@codemirror/view';
+import {
+	DEFAULT_SPEECH_RULES,
+	MappedText,
+	MarkdownSpeechTransformer,
+	SAVED_AUDIO_NAME,
+	SpeechElement,
+	SpeechRule,
+	SpeechRules
+} from './speech';
+import {
+	InvalidApiKeyError,
+	ProviderUnreachableError,
+	QuotaExceededError,
+	RequestCancelledError,
+	RequestTimeoutError,
+	SafetyBlockedError,
+	TTSHttpClient,
+	TTSRequestError,
+	UnknownVoiceError,
+	toGeminiError,
+	toOpenAIError
+} from './http-client';
+
+/**
+ * A named Gemini API key. Keys kept on this device only are stored in the
+ * vault's local storage instead of the synced plugin data, and key is empty.
+ */
+interface GeminiApiKey {
+	id: string;
+	name: string;
+	key: string;
+	deviceOnly: boolean;
+}
+
+/**
+ * A named bundle of reading settings. Using a profile copies them into the
+ * settings; apiKeyId, when set, also picks the Gemini API key.
+ */
+interface ReadingProfile {
+	id: string;
+	name: string;
+	provider: TTSProviderId;
+	voiceName: string;
+	modelName: string;
+	stylePrompt: string;
+	skipCodeBlocks: boolean;
+	speechRules: SpeechRules;
+	apiKeyId: string;
+}
 
 interface GeminiTTSSettings {
-	apiKey: string;
+	apiKeys: GeminiApiKey[];
+	activeApiKeyId: string;
 	modelName: string;
 	voiceName: string;
 	stylePrompt: string;
+	// Gemini model that writes summaries and translations
+	textModelName: string;
+	summaryLength: SummaryLength;
+	translationLanguage: string;
 	skipCodeBlocks: boolean;
 	saveAudioFiles: boolean;
 	audioOutputFolder: string;
+	audioStorage: AudioStorage;
+	// Retention limits for saved audio, 0 for no limit
+	retentionPerNote: number;
+	retentionDays: number;
+	retentionMaxSizeMB: number;
+	// Saved audio files by vault path
+	savedAudio: Record<string, SavedAudioInfo>;
+	podcastTitle: string;
+	// URL the podcast export folder is served at
+	podcastBaseUrl: string;
+	podcastFolder: string;
+	audioFormat: AudioFormat;
+	audioLinkMode: AudioLinkMode;
+	// Opus bitrate in kbps
+	opusBitrate: number;
+	maxChunkCharacters: number;
+	dialogueMode: boolean;
+	speakerVoices: Record<string, string>;
+	highlightWhileReading: boolean;
+	clickToSeek: boolean;
+	speechRules: SpeechRules;
+	lexiconNotePath: string;
+	lexiconEntries: LexiconEntry[];
+	cacheEnabled: boolean;
+	cacheMaxSizeMB: number;
+	requestTimeoutSeconds: number;
+	maxRetries: number;
+	// Requests per minute while rendering notes in bulk
+	batchRequestsPerMinute: number;
+	budgetPeriod: BudgetPeriod;
+	// USD; 0 turns the check off
+	budgetConfirmAbove: number;
+	budgetCap: number;
+	provider: TTSProviderId;
+	openaiBaseUrl: string;
+	openaiApiKey: string;
+	openaiModel: string;
+	openaiVoice: string;
+	// Paths of the notes in the playback queue, saved so it survives a reload
+	playbackQueue: string[];
+	// Where playback stopped, by note or audio file path
+	playbackPositions: Record<string, PlaybackPosition>;
+	playbackRate: number;
+	playbackVolume: number;
+	readingProfiles: ReadingProfile[];
+	activeProfileId: string;
+	// Default reading profile ids by folder path
+	folderProfiles: Record<string, string>;
+}
+
+interface PlaybackPosition {
+	// Seconds into the note's reading or the audio file
+	position: number;
+	duration: number;
+	// For notes, where in the markdown reading got to, so it can pick up there after edits
+	offset?: number;
+	updatedAt: number;
+}
+
+/**
+ * A pronunciation lexicon entry. term is plain text, or a regular expression
+ * when regex is set, in which case replacement may use $1-$9.
+ */
+interface LexiconEntry {
+	term: string;
+	replacement: string;
+	regex?: boolean;
+	caseSensitive?: boolean;
+	wholeWord?: boolean;
 }
 
+// Markdown elements with configurable speech rules, in settings order
+const SPEECH_ELEMENTS: [SpeechElement, string, string][] = [
+	['table', 'Tables', 'Read reads each row as a list of cells'],
+	['callout', 'Callouts', 'Read reads the title followed by the content. {text} is the title or type'],
+	['footnote', 'Footnotes', 'Read reads definitions where they are written. Replace speaks the cue at each reference, {text} is the footnote label'],
+	['embed', 'Embeds', '![[...]] embeds. {text} is the embedded file name'],
+	['image', 'Images', 'Read reads the alt text. {text} is the alt text or file name'],
+	['link', 'Links', 'Markdown links and wikilinks. {text} is the link text'],
+	['url', 'Bare URLs', 'Read reads the full address. {text} is the domain'],
+	['html', 'HTML Tags', 'Text inside tags is always read. Read speaks the tags themselves'],
+	['math', 'Math', 'Inline and block LaTeX. Read reads the raw source'],
+	['task', 'Tasks', 'Checkbox list items. {text} is the task text']
+];
+
 const DEFAULT_SETTINGS: GeminiTTSSettings = {
-	apiKey: '',
+	apiKeys: [{ id: 'default', name: 'Default', key: '', deviceOnly: false }],
+	activeApiKeyId: 'default',
 	modelName: 'gemini-2.5-flash-preview-tts',
 	voiceName: 'Puck',
 	stylePrompt: 'Read clearly and naturally.',
+	textModelName: 'gemini-2.5-flash',
+	summaryLength: 'short',
+	translationLanguage: 'Icelandic',
 	skipCodeBlocks: true,
 	saveAudioFiles: false,
-	audioOutputFolder: 'TTS Audio'
+	audioOutputFolder: 'TTS Audio',
+	audioStorage: 'note-folder',
+	retentionPerNote: 0,
+	retentionDays: 0,
+	retentionMaxSizeMB: 0,
+	savedAudio: {},
+	podcastTitle: '',
+	podcastBaseUrl: '',
+	podcastFolder: 'TTS Podcast',
+	audioFormat: 'wav',
+	audioLinkMode: 'none',
+	opusBitrate: 32,
+	maxChunkCharacters: 1500,
+	dialogueMode: false,
+	speakerVoices: {},
+	highlightWhileReading: true,
+	clickToSeek: true,
+	lexiconNotePath: '',
+	lexiconEntries: [],
+	cacheEnabled: true,
+	cacheMaxSizeMB: 200,
+	requestTimeoutSeconds: 120,
+	maxRetries: 3,
+	batchRequestsPerMinute: 10,
+	budgetPeriod: 'month',
+	budgetConfirmAbove: 0,
+	budgetCap: 0,
+	provider: 'gemini',
+	openaiBaseUrl: 'http://localhost:8000/v1',
+	openaiApiKey: '',
+	openaiModel: 'tts-1',
+	openaiVoice: 'alloy',
+	playbackQueue: [],
+	playbackPositions: {},
+	playbackRate: 1,
+	playbackVolume: 1,
+	speechRules: DEFAULT_SPEECH_RULES,
+	readingProfiles: [],
+	activeProfileId: '',
+	folderProfiles: {}
+}
+
+/**
+ * Copies speech rules, filling in elements added since they were saved.
+ */
+function mergeSpeechRules(rules?: Partial<SpeechRules>): SpeechRules {
+	const merged = {} as SpeechRules;
+	for (const [element] of SPEECH_ELEMENTS) {
+		merged[element] = Object.assign({}, DEFAULT_SETTINGS.speechRules[element], rules?.[element]);
+	}
+	return merged;
+}
+
+// Prebuilt Gemini voices and their descriptions
+const GEMINI_VOICES: [string, string][] = [
+	['Zephyr', 'Bright'],
+	['Puck', 'Upbeat'],
+	['Charon', 'Informative'],
+	['Kore', 'Firm'],
+	['Fenrir', 'Excitable'],
+	['Leda', 'Youthful'],
+	['Orus', 'Firm'],
+	['Aoede', 'Breezy'],
+	['Callirhoe', 'Easy-going'],
+	['Autonoe', 'Bright'],
+	['Enceladus', 'Breathy'],
+	['Iapetus', 'Clear'],
+	['Umbriel', 'Easy-going'],
+	['Algieba', 'Smooth'],
+	['Despina', 'Smooth'],
+	['Erinome', 'Clear'],
+	['Algenib', 'Gravelly'],
+	['Rasalgethi', 'Informative'],
+	['Laomedeai', 'Upbeat'],
+	['Achernar', 'Soft'],
+	['Alnilam', 'Firm'],
+	['Schedar', 'Even'],
+	['Gacrux', 'Mature'],
+	['Pulcherrima', 'Forward'],
+	['Achird', 'Friendly'],
+	['Zubenelgenubi', 'Casual'],
+	['Vindemiatrix', 'Gentle'],
+	['Sadachbia', 'Lively'],
+	['Sadaltager', 'Knowledgeable'],
+	['Sulafat', 'Warm']
+];
+
+// Gemini speech models, used when the list cannot be fetched from the API
+const GEMINI_SPEECH_MODELS = ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'];
+
+// Sentence read when previewing a voice
+const VOICE_PREVIEW_TEXT = 'Hello! This is how your notes will sound when I read them aloud.';
+
+// Matches dialogue lines such as "Alice: Hello there"
+const SPEAKER_LINE_PATTERN = /^([\p{L}][\p{L}\p{N} .'-]{0,39}?):\s+(\S.*)$/u;
+
+/**
+ * Per-note settings read from frontmatter (tts-voice, tts-style, tts-model),
+ * on top of the note's default reading profile.
+ */
+interface NoteOverrides {
+	provider?: TTSProviderId;
+	voiceName?: string;
+	stylePrompt?: string;
+	modelName?: string;
+	// Name of the note's default reading profile
+	profile?: string;
+	dialogueMode?: boolean;
+	speakerVoices?: Record<string, string>;
+	skipCodeBlocks?: boolean;
+	speechRules?: SpeechRules;
+	apiKeyId?: string;
+}
+
+const FRONTMATTER_OVERRIDE_KEYS: Record<string, 'voiceName' | 'stylePrompt' | 'modelName' | 'profile'> = {
+	'tts-voice': 'voiceName',
+	'tts-style': 'stylePrompt',
+	'tts-model': 'modelName',
+	'tts-profile': 'profile'
+};
+
+interface TextRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * A sentence being read, with its position in the cleaned text (start/end)
+ * and in the note (from/to). Sentences on the same line share a paragraph.
+ */
+interface ReadingSegment {
+	start: number;
+	end: number;
+	from: number;
+	to: number;
+	paragraph: number;
+}
+
+// Whitespace after sentence-ending punctuation and any closing quotes or brackets
+const SENTENCE_BOUNDARY = /(?<=[.!?…]["'”’)\]]*)\s+/;
+
+/**
+ * Splits a range of text at every match of separator and returns the
+ * non-empty pieces with surrounding whitespace trimmed.
+ */
+function splitRanges(text: string, range: TextRange, separator: RegExp): TextRange[] {
+	const ranges: TextRange[] = [];
+	const pattern = new RegExp(separator.source, 'g');
+	const slice = text.slice(range.start, range.end);
+
+	const pushTrimmed = (start: number, end: number) => {
+		while (start < end && /\s/.test(slice[start])) start++;
+		while (end > start && /\s/.test(slice[end - 1])) end--;
+		if (end > start) {
+			ranges.push({ start: range.start + start, end: range.start + end });
+		}
+	};
+
+	let pieceStart = 0;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(slice)) !== null) {
+		if (match[0].length === 0) {
+			pattern.lastIndex++;
+			continue;
+		}
+		pushTrimmed(pieceStart, match.index);
+		pieceStart = match.index + match[0].length;
+	}
+	pushTrimmed(pieceStart, slice.length);
+
+	return ranges;
+}
+
+/**
+ * A piece of text sent in a single synthesis request. Dialogue chunks carry
+ * the voice for each speaker, or a single voice when only one speaker talks.
+ */
+interface SpeechChunk {
+	text: string;
+	// Position of the chunk in the cleaned text
+	start: number;
+	end: number;
+	voiceName?: string;
+	speakerVoices?: Record<string, string>;
 }
 
 interface AudioFile {
 	name: string;
 	path: string;
 	createdTime: number;
+	// Details from the audio library, when known
+	notePath?: string;
+	voices?: string;
+	duration?: number;
+	size?: number;
 }
 
 const SIDEBAR_VIEW_TYPE = 'gemini-tts-sidebar';
 
-class GeminiTTSSidebarView extends ItemView {
-	plugin: GeminiTTSPlugin;
-	audioList: AudioFile[] = [];
+type AudioFormat = 'wav' | 'opus';
 
-	constructor(leaf: WorkspaceLeaf, plugin: GeminiTTSPlugin) {
-		super(leaf);
-		this.plugin = plugin;
+// Export formats and their names, in the order shown in settings
+const AUDIO_FORMATS: [AudioFormat, string][] = [
+	['wav', 'WAV (uncompressed)'],
+	['opus', 'Opus in Ogg (compressed)']
+];
+
+type AudioLinkMode = 'none' | 'top' | 'bottom' | 'frontmatter';
+
+// Ways to link saved audio from its note, in the order shown in settings
+const AUDIO_LINK_MODES: [AudioLinkMode, string][] = [
+	['none', 'Do not link'],
+	['top', 'Embed at the top of the note'],
+	['bottom', 'Embed at the bottom of the note'],
+	['frontmatter', 'tts-audio property']
+];
+
+const SAVED_AUDIO_EMBED_LINE = /^!\[\[[^\]|]*_\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.(wav|ogg)(\|[^\]]*)?\]\][ \t]*(?=\r?$)/gm;
+
+interface AudioTags {
+	title: string;
+	// The voice that read the note
+	artist: string;
+	// YYYY-MM-DD
+	date: string;
+	// Vault path of the note the audio was read from
+	source: string;
+}
+
+/**
+ * Adds a RIFF LIST/INFO chunk with the tags to the end of a WAV file.
+ */
+function addWavTags(wav: ArrayBuffer, tags: AudioTags): ArrayBuffer {
+	const encoder = new TextEncoder();
+	const fields: [string, string][] = [
+		['INAM', tags.title],
+		['IART', tags.artist],
+		['ICRD', tags.date],
+		['ICMT', tags.source]
+	];
+
+	const parts = fields.filter(([, value]) => value).map(([id, value]) => {
+		// Values are null-terminated and padded to an even length
+		const text = encoder.encode(value);
+		const size = text.length + 1;
+		const part = new Uint8Array(8 + size + (size % 2));
+		part.set(encoder.encode(id), 0);
+		new DataView(part.buffer).setUint32(4, size, true);
+		part.set(text, 8);
+		return part;
+	});
+
+	const listSize = 4 + parts.reduce((total, part) => total + part.length, 0);
+	const result = new Uint8Array(wav.byteLength + 8 + listSize);
+	result.set(new Uint8Array(wav), 0);
+	const view = new DataView(result.buffer);
+	let offset = wav.byteLength;
+	result.set(encoder.encode('LIST'), offset);
+	view.setUint32(offset + 4, listSize, true);
+	result.set(encoder.encode('INFO'), offset + 8);
+	offset += 12;
+	for (const part of parts) {
+		result.set(part, offset);
+		offset += part.length;
 	}
+	// RIFF size covers everything after the first 8 bytes
+	view.setUint32(4, result.length - 8, true);
+	return result.buffer;
+}
 
-	getViewType() {
-		return SIDEBAR_VIEW_TYPE;
+// WebCodecs is not in TypeScript's DOM library yet, so only the parts used here are declared
+interface WebCodecsEncodedChunk {
+	byteLength: number;
+	duration: number | null;
+	copyTo(destination: Uint8Array): void;
+}
+
+interface WebCodecsAudioEncoder {
+	configure(config: object): void;
+	encode(data: unknown): void;
+	flush(): Promise<void>;
+	close(): void;
+}
+
+interface WebCodecs {
+	AudioEncoder?: {
+		new (init: { output: (chunk: WebCodecsEncodedChunk) => void; error: (error: Error) => void }): WebCodecsAudioEncoder;
+		isConfigSupported(config: object): Promise<{ supported: boolean }>;
+	};
+	AudioData?: new (init: object) => { close(): void };
+}
+
+const OPUS_SAMPLE_RATE = 48000;
+// Samples the decoder drops from the start, matching libopus' encoder delay
+const OPUS_PRE_SKIP = 312;
+
+/**
+ * Encodes mono 48 kHz samples to Opus with WebCodecs and wraps them in an Ogg
+ * container with the tags as Vorbis comments. Returns null when this platform
+ * cannot encode Opus.
+ */
+async function encodeOggOpus(samples: Float32Array, inputSampleRate: number, bitrate: number, tags: AudioTags): Promise<ArrayBuffer | null> {
+	const { AudioEncoder, AudioData } = window as unknown as WebCodecs;
+	if (!AudioEncoder || !AudioData) return null;
+
+	const config = { codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: 1, bitrate };
+	const support = await AudioEncoder.isConfigSupported(config).catch(() => ({ supported: false }));
+	if (!support.supported) return null;
+
+	const packets: Uint8Array[] = [];
+	let encodeError: Error | null = null;
+	const encoder = new AudioEncoder({
+		output: chunk => {
+			const packet = new Uint8Array(chunk.byteLength);
+			chunk.copyTo(packet);
+			packets.push(packet);
+		},
+		error: error => encodeError = error
+	});
+	encoder.configure(config);
+
+	// Feed the encoder a second at a time
+	for (let start = 0; start < samples.length; start += OPUS_SAMPLE_RATE) {
+		const frame = samples.subarray(start, Math.min(start + OPUS_SAMPLE_RATE, samples.length));
+		const data = new AudioData({
+			format: 'f32-planar',
+			sampleRate: OPUS_SAMPLE_RATE,
+			numberOfFrames: frame.length,
+			numberOfChannels: 1,
+			timestamp: Math.round(start / OPUS_SAMPLE_RATE * 1e6),
+			data: frame
+		});
+		encoder.encode(data);
+		data.close();
 	}
+	await encoder.flush();
+	encoder.close();
+	if (encodeError) throw encodeError;
 
-	getDisplayText() {
-		return 'Gemini TTS';
+	return buildOggOpus(packets, samples.length, inputSampleRate, tags);
+}
+
+/**
+ * Writes Opus packets (20 ms each) to an Ogg Opus file.
+ */
+function buildOggOpus(packets: Uint8Array[], totalSamples: number, inputSampleRate: number, tags: AudioTags): ArrayBuffer {
+	const encoder = new TextEncoder();
+	const serial = Math.floor(Math.random() * 0xffffffff);
+	const pages: Uint8Array[] = [];
+
+	const head = new Uint8Array(19);
+	const headView = new DataView(head.buffer);
+	head.set(encoder.encode('OpusHead'), 0);
+	head[8] = 1; // Version
+	head[9] = 1; // Channels
+	headView.setUint16(10, OPUS_PRE_SKIP, true);
+	headView.setUint32(12, inputSampleRate, true);
+	headView.setInt16(16, 0, true); // Output gain
+	head[18] = 0; // Channel mapping family
+
+	const comments = [
+		`TITLE=${tags.title}`,
+		`ARTIST=${tags.artist}`,
+		`DATE=${tags.date}`,
+		`SOURCE=${tags.source}`
+	].map(comment => encoder.encode(comment));
+	const vendor = encoder.encode('Gemini TTS');
+	const commentBytes = new Uint8Array(8 + 4 + vendor.length + 4 + comments.reduce((total, comment) => total + 4 + comment.length, 0));
+	const commentView = new DataView(commentBytes.buffer);
+	commentBytes.set(encoder.encode('OpusTags'), 0);
+	commentView.setUint32(8, vendor.length, true);
+	commentBytes.set(vendor, 12);
+	let offset = 12 + vendor.length;
+	commentView.setUint32(offset, comments.length, true);
+	offset += 4;
+	for (const comment of comments) {
+		commentView.setUint32(offset, comment.length, true);
+		commentBytes.set(comment, offset + 4);
+		offset += 4 + comment.length;
 	}
 
-	getIcon() {
-		return 'mic';
+	pages.push(oggPage([head], 0, serial, 0, 0x02));
+	pages.push(oggPage([commentBytes], 0, serial, 1, 0));
+
+	// About a second of audio per page
+	const samplesPerPacket = OPUS_SAMPLE_RATE / 50;
+	const packetsPerPage = 50;
+	let granule = OPUS_PRE_SKIP;
+	for (let i = 0; i < packets.length; i += packetsPerPage) {
+		const pagePackets = packets.slice(i, i + packetsPerPage);
+		const last = i + packetsPerPage >= packets.length;
+		granule += pagePackets.length * samplesPerPacket;
+		// The last page's granule position trims the encoder's padding
+		const position = last ? OPUS_PRE_SKIP + totalSamples : granule;
+		pages.push(oggPage(pagePackets, position, serial, pages.length, last ? 0x04 : 0));
 	}
 
-	async onOpen() {
-		const container = this.containerEl.children[1];
-		container.empty();
-		
-		const contentDiv = container.createDiv({ cls: 'gemini-tts-sidebar-content' });
-		
-		// Title
-		contentDiv.createEl('h3', { text: '🎙️ TTS Player', cls: 'gemini-tts-sidebar-title' });
-		
-		// Player container (will be populated when audio is generated)
-		const playerContainer = contentDiv.createDiv({ cls: 'gemini-tts-sidebar-player', attr: { id: 'sidebar-player-container' } });
-		playerContainer.createDiv({ cls: 'gemini-tts-sidebar-empty', text: 'No audio playing' });
-		
-		// Audio history section
-		const historyDiv = contentDiv.createDiv({ cls: 'gemini-tts-sidebar-history' });
-		historyDiv.createEl('h4', { text: 'Recent Audio', cls: 'gemini-tts-sidebar-history-title' });
-		
-		const audioListContainer = historyDiv.createDiv({ cls: 'gemini-tts-audio-list', attr: { id: 'audio-list' } });
-		
-		// Load existing audio files
-		await this.loadAudioFiles();
-		this.renderAudioList(audioListContainer);
+	const result = new Uint8Array(pages.reduce((total, page) => total + page.length, 0));
+	offset = 0;
+	for (const page of pages) {
+		result.set(page, offset);
+		offset += page.length;
 	}
+	return result.buffer;
+}
 
-	async loadAudioFiles() {
-		// Priority: 1) Current note's folder, 2) Configured folder in settings
-		let folderPath = this.plugin.settings.audioOutputFolder;
-		const activeFile = this.plugin.app.workspace.getActiveFile();
-		if (activeFile && activeFile.parent) {
-			folderPath = activeFile.parent.path;
+let oggCrcTable: Uint32Array | null = null;
+
+function oggCrc(data: Uint8Array): number {
+	if (!oggCrcTable) {
+		oggCrcTable = new Uint32Array(256);
+		for (let i = 0; i < 256; i++) {
+			let value = i << 24;
+			for (let bit = 0; bit < 8; bit++) {
+				value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+			}
+			oggCrcTable[i] = value >>> 0;
 		}
-		
-		try {
-			if (!await this.plugin.app.vault.adapter.exists(folderPath)) {
-				this.audioList = [];
-				return;
+	}
+	let crc = 0;
+	for (let i = 0; i < data.length; i++) {
+		crc = ((crc << 8) ^ oggCrcTable[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+	}
+	return crc;
+}
+
+/**
+ * Builds one Ogg page holding whole packets. headerType is 0x02 for the
+ * first page of the stream and 0x04 for the last.
+ */
+function oggPage(packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number): Uint8Array {
+	const segments: number[] = [];
+	for (const packet of packets) {
+		for (let remaining = packet.length; ; remaining -= 255) {
+			segments.push(Math.min(remaining, 255));
+			if (remaining < 255) break;
+		}
+	}
+
+	const bodyLength = packets.reduce((total, packet) => total + packet.length, 0);
+	const page = new Uint8Array(27 + segments.length + bodyLength);
+	const view = new DataView(page.buffer);
+	page.set([0x4f, 0x67, 0x67, 0x53], 0); // "OggS"
+	page[4] = 0; // Version
+	page[5] = headerType;
+	view.setUint32(6, granule % 0x100000000, true);
+	view.setUint32(10, Math.floor(granule / 0x100000000), true);
+	view.setUint32(14, serial, true);
+	view.setUint32(18, sequence, true);
+	page[26] = segments.length;
+	page.set(segments, 27);
+
+	let offset = 27 + segments.length;
+	for (const packet of packets) {
+		page.set(packet, offset);
+		offset += packet.length;
+	}
+	view.setUint32(22, oggCrc(page), true);
+	return page;
+}
+
+/**
+ * Changes the speed of audio without changing its pitch, using WSOLA: short
+ * overlapping frames are taken from the input at the new rate, each shifted
+ * slightly so its waveform lines up with the previous one.
+ */
+function timeStretch(context: BaseAudioContext, buffer: AudioBuffer, rate: number): AudioBuffer {
+	const { sampleRate, numberOfChannels } = buffer;
+	const frame = Math.round(sampleRate * 0.04 / 2) * 2;
+	const hop = frame / 2;
+	const tolerance = Math.round(sampleRate * 0.008);
+	const compareLength = Math.round(sampleRate * 0.01);
+	const outputLength = Math.max(1, Math.ceil(buffer.length / rate));
+	const output = context.createBuffer(numberOfChannels, outputLength, sampleRate);
+
+	const window = new Float32Array(frame);
+	for (let k = 0; k < frame; k++) {
+		window[k] = 0.5 - 0.5 * Math.cos(2 * Math.PI * k / frame);
+	}
+
+	// Frames are aligned on the first channel and copied the same way for all
+	const input = buffer.getChannelData(0);
+	const sampleAt = (data: Float32Array, index: number) => index >= 0 && index < data.length ? data[index] : 0;
+
+	// How well the input at candidate continues the input at natural, sampling every step samples
+	const similarity = (natural: number, candidate: number, step: number) => {
+		let score = 0;
+		if (candidate >= 0 && candidate + compareLength <= input.length && natural + compareLength <= input.length) {
+			for (let k = 0; k < compareLength; k += step) {
+				score += input[natural + k] * input[candidate + k];
+			}
+		} else {
+			for (let k = 0; k < compareLength; k += step) {
+				score += sampleAt(input, natural + k) * sampleAt(input, candidate + k);
 			}
+		}
+		return score;
+	};
 
-			const files = await this.plugin.app.vault.adapter.list(folderPath);
-			
-			this.audioList = [];
-			for (const fileName of files.files) {
-				// Only include audio files
-				if (fileName.match(/\.(wav|mp3|ogg|m4a)$/i)) {
-					// Handle case where fileName might include or exclude folder path
-					const fullPath = fileName.startsWith(folderPath) ? fileName : `${folderPath}/${fileName}`;
-					
-					try {
-						const stat = await this.plugin.app.vault.adapter.stat(fullPath);
-						this.audioList.push({
-							name: fileName.split('/').pop() || fileName,
-							path: fullPath,
-							createdTime: stat?.mtime || 0
-						});
-					} catch (statError) {
-						console.error('[Gemini TTS] Could not stat file:', fullPath, statError);
-					}
+	const starts: number[] = [];
+	let previous = 0;
+	for (let outputPosition = 0; outputPosition < outputLength; outputPosition += hop) {
+		const nominal = Math.round(outputPosition * rate);
+		let best = nominal;
+		if (outputPosition > 0) {
+			// Find the shift that best continues the frame taken last time, coarsely and then around the best match
+			const natural = previous + hop;
+			let bestScore = -Infinity;
+			for (let shift = -tolerance; shift <= tolerance; shift += 4) {
+				const score = similarity(natural, nominal + shift, 4);
+				if (score > bestScore) {
+					bestScore = score;
+					best = nominal + shift;
+				}
+			}
+			const coarse = best;
+			bestScore = -Infinity;
+			for (let shift = -3; shift <= 3; shift++) {
+				const score = similarity(natural, coarse + shift, 1);
+				if (score > bestScore) {
+					bestScore = score;
+					best = coarse + shift;
 				}
 			}
-			
-			// Sort by creation time (newest first)
-			this.audioList.sort((a, b) => b.createdTime - a.createdTime);
-		} catch (error) {
-			console.error('[Gemini TTS] Error loading audio files:', error);
 		}
+		starts.push(Math.max(0, best));
+		previous = Math.max(0, best);
 	}
 
-	renderAudioList(container: HTMLElement) {
-		container.empty();
-		
-		if (this.audioList.length === 0) {
-			container.createDiv({ cls: 'gemini-tts-audio-list-empty', text: 'No audio files yet' });
-			return;
-		}
-
-		this.audioList.forEach((audio) => {
-			const itemDiv = container.createDiv({ cls: 'gemini-tts-audio-item' });
-			
-			// File name and date
-			const fileName = audio.name.split('/').pop() || 'unknown';
-			const date = new Date(audio.createdTime).toLocaleDateString();
-			
-			itemDiv.createEl('div', { cls: 'gemini-tts-audio-name', text: fileName });
-			itemDiv.createEl('div', { cls: 'gemini-tts-audio-date', text: date });
-			
-			// Play button
-			const playBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-play-btn', text: '▶️' });
-			playBtn.setAttribute('aria-label', `Play ${fileName}`);
-			playBtn.onclick = () => this.playAudio(audio);
-			
-			// Delete button
-			const deleteBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-delete-btn', text: '🗑️' });
-			deleteBtn.setAttribute('aria-label', `Delete ${fileName}`);
-			deleteBtn.onclick = () => this.deleteAudio(audio);
+	for (let c = 0; c < numberOfChannels; c++) {
+		const source = buffer.getChannelData(c);
+		const target = output.getChannelData(c);
+		starts.forEach((start, frameIndex) => {
+			const outputPosition = frameIndex * hop;
+			for (let k = 0; k < frame && outputPosition + k < outputLength; k++) {
+				target[outputPosition + k] += window[k] * sampleAt(source, start + k);
+			}
 		});
 	}
+	return output;
+}
 
-	async playAudio(audio: AudioFile) {
-		try {
-			const audioData = await this.plugin.app.vault.adapter.readBinary(audio.path);
-			
-			// Detect file extension and map to correct MIME type
-			const ext = audio.name.split('.').pop()?.toLowerCase();
-			let mimeType = 'audio/mpeg'; // default
-			if (ext === 'wav') mimeType = 'audio/wav';
-			else if (ext === 'ogg') mimeType = 'audio/ogg';
-			else if (ext === 'm4a') mimeType = 'audio/mp4';
-			else if (ext === 'mp3') mimeType = 'audio/mpeg';
-			
-			const audioBlob = new Blob([audioData], { type: mimeType });
-			const audioUrl = URL.createObjectURL(audioBlob);
-			
-			// Stop current audio if playing
-			if (this.plugin.currentAudio) {
-				this.plugin.currentAudio.pause();
-				URL.revokeObjectURL(this.plugin.currentAudio.src);
+/**
+ * Stitches decoded chunks together as mono 16-bit PCM at the first chunk's
+ * sample rate.
+ */
+function stitchToPcm(buffers: AudioBuffer[]): { pcm: ArrayBuffer; sampleRate: number } {
+	const sampleRate = buffers.length > 0 ? buffers[0].sampleRate : 24000;
+	const totalSamples = buffers.reduce((total, buffer) => total + buffer.length, 0);
+	const pcm = new DataView(new ArrayBuffer(totalSamples * 2));
+
+	let sampleIndex = 0;
+	for (const buffer of buffers) {
+		const channels: Float32Array[] = [];
+		for (let c = 0; c < buffer.numberOfChannels; c++) {
+			channels.push(buffer.getChannelData(c));
+		}
+		for (let i = 0; i < buffer.length; i++) {
+			let sample = 0;
+			for (const channel of channels) {
+				sample += channel[i];
 			}
-			
-			// Create and play new audio
-			this.plugin.currentAudio = new Audio();
-			this.plugin.currentAudio.src = audioUrl;
-			this.plugin.currentAudio.play();
-			this.plugin.isPlaying = true;
-			this.plugin.isPaused = false;
-			
-			new Notice(`Playing: ${audio.name}`);
-		} catch (error) {
-			new Notice(`Error playing audio: ${error.message}`);
-			console.error('[Gemini TTS] Error playing audio:', error);
+			sample = Math.max(-1, Math.min(1, sample / channels.length));
+			pcm.setInt16(sampleIndex * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+			sampleIndex++;
 		}
 	}
 
-	async deleteAudio(audio: AudioFile) {
-		if (confirm(`Delete ${audio.name}?`)) {
-			try {
-				// Use Obsidian's vault API to delete files properly
-				// First try vault.delete if available, otherwise use adapter
-				const abstractFile = this.plugin.app.vault.getAbstractFileByPath(audio.path);
-				if (abstractFile) {
-					await this.plugin.app.vault.delete(abstractFile);
-					this.audioList = this.audioList.filter(a => a.path !== audio.path);
-					const container = this.containerEl.querySelector('#audio-list') as HTMLElement;
-					if (container) {
-						this.renderAudioList(container);
-					}
-					new Notice(`Deleted: ${audio.name}`);
-				} else {
-					// Fallback to adapter if file not found in vault
-					console.warn('[Gemini TTS] File not found in vault, trying adapter delete:', audio.path);
-					await this.plugin.app.vault.adapter.remove(audio.path);
-					this.audioList = this.audioList.filter(a => a.path !== audio.path);
-					const container = this.containerEl.querySelector('#audio-list') as HTMLElement;
-					if (container) {
-						this.renderAudioList(container);
-					}
-					new Notice(`Deleted: ${audio.name}`);
-				}
-			} catch (error) {
-				new Notice(`Error deleting audio: ${error.message}`);
-				console.error('[Gemini TTS] Error deleting audio:', error);
-			}
+	return { pcm: pcm.buffer, sampleRate };
+}
+
+/**
+ * Plays audio chunks back to back on a Web Audio timeline, so a long note can
+ * start playing while later chunks are still being generated. Mirrors the parts
+ * of the HTMLAudioElement API that the player UI relies on. Times are in
+ * seconds of the original audio, whatever the playback rate.
+ */
+class ChunkedAudioPlayer extends EventTarget {
+	private context: AudioContext | null = null;
+	private gainNode: GainNode | null = null;
+	private buffers: AudioBuffer[] = [];
+	// Time-stretched copies of the buffers for the current rate, made as they are scheduled
+	private stretched = new Map<number, AudioBuffer>();
+	private offsets: number[] = [];
+	private sources: AudioBufferSourceNode[] = [];
+	private startedAt = 0;
+	private nextToSchedule = 0;
+	private position = 0;
+	private playing = false;
+	private waiting = false;
+	private complete = false;
+	private closed = false;
+	private volumeLevel = 1;
+	private rate = 1;
+	private timer: number | null = null;
+
+	// Small lead time so newly scheduled sources never start in the past
+	private static readonly SCHEDULE_LEAD = 0.05;
+	// How far ahead chunks are scheduled, in seconds of real time
+	private static readonly SCHEDULE_AHEAD = 5;
+
+	get paused(): boolean {
+		return !this.playing;
+	}
+
+	get duration(): number {
+		return this.buffers.reduce((total, buffer) => total + buffer.duration, 0);
+	}
+
+	get currentTime(): number {
+		if (!this.playing || this.waiting || !this.context) {
+			return this.position;
 		}
+		const elapsed = (this.context.currentTime - this.startedAt) * this.rate;
+		return Math.max(0, Math.min(elapsed, this.duration));
 	}
 
-	async refreshAudioList() {
-		await this.loadAudioFiles();
-		const container = this.containerEl.querySelector('#audio-list') as HTMLElement;
-		if (container) {
-			this.renderAudioList(container);
+	set currentTime(value: number) {
+		this.position = Math.max(0, Math.min(value, this.duration));
+		if (this.playing) {
+			this.stopSources();
+			this.waiting = false;
+			this.scheduleFrom(this.position);
 		}
+		this.emit('timeupdate');
 	}
 
-	updatePlayerDisplay(isPlaying: boolean = false) {
-		const playerContainer = this.containerEl.querySelector('#sidebar-player-container') as HTMLElement;
-		if (!playerContainer) return;
+	get volume(): number {
+		return this.volumeLevel;
+	}
 
-		playerContainer.empty();
-		
-		if (!isPlaying || !this.plugin.currentAudio) {
-			playerContainer.createDiv({ cls: 'gemini-tts-sidebar-empty', text: 'No audio playing' });
+	set volume(value: number) {
+		this.volumeLevel = value;
+		if (this.gainNode) {
+			this.gainNode.gain.value = value;
+		}
+		this.emit('volumechange');
+	}
+
+	get playbackRate(): number {
+		return this.rate;
+	}
+
+	set playbackRate(value: number) {
+		if (value === this.rate) return;
+		const position = this.currentTime;
+		this.rate = value;
+		this.stretched.clear();
+		this.position = position;
+		if (this.playing && !this.waiting) {
+			this.stopSources();
+			this.scheduleFrom(position);
+		}
+		this.emit('ratechange');
+	}
+
+	/**
+	 * Decodes a chunk and appends it to the end of the timeline. If playback has
+	 * caught up with the generated audio, it continues from the new chunk.
+	 */
+	async appendChunk(audioData: ArrayBuffer, sampleRate?: number) {
+		if (this.closed) return;
+
+		if (!this.context) {
+			this.context = sampleRate ? new AudioContext({ sampleRate }) : new AudioContext();
+			this.gainNode = this.context.createGain();
+			this.gainNode.gain.value = this.volumeLevel;
+			this.gainNode.connect(this.context.destination);
+		}
+
+		const buffer = await this.context.decodeAudioData(audioData.slice(0));
+		if (this.closed) return;
+
+		const offset = this.duration;
+		this.buffers.push(buffer);
+		this.offsets.push(offset);
+
+		if (this.buffers.length === 1) {
+			this.emit('loadedmetadata');
+		}
+		this.emit('durationchange');
+
+		if (!this.playing) return;
+
+		if (this.waiting || this.startedAt + offset / this.rate < this.context.currentTime) {
+			// Playback ran out of audio, pick up again at the start of this chunk
+			this.waiting = false;
+			this.position = offset;
+			this.stopSources();
+			this.scheduleFrom(offset);
 		} else {
-			const playerDiv = playerContainer.createDiv({ cls: 'gemini-tts-sidebar-player-active' });
-			
-			// Main controls - Play/Pause and Stop buttons
-			const controlsDiv = playerDiv.createDiv({ cls: 'gemini-tts-sidebar-controls' });
-			
-			const pauseBtn = controlsDiv.createEl('button', { cls: 'gemini-tts-sidebar-btn gemini-tts-btn-large', text: '⏸️ Pause' });
-			pauseBtn.onclick = () => this.plugin.togglePauseResume();
-			
-			const stopBtn = controlsDiv.createEl('button', { cls: 'gemini-tts-sidebar-btn gemini-tts-btn-medium', text: '⏹️' });
-			stopBtn.onclick = () => {
-				this.plugin.stopPlayback();
-				this.updatePlayerDisplay(false);
-			};
-			
-			// Progress bar
-			const progressContainer = playerDiv.createDiv({ cls: 'gemini-tts-progress-container' });
-			const progressBar = progressContainer.createEl('input', { cls: 'gemini-tts-progress-bar', attr: { type: 'range', min: '0', max: '100', value: '0' } }) as HTMLInputElement;
-			
-			// Time display
-			const timeDiv = progressContainer.createDiv({ cls: 'gemini-tts-time-display', text: '0:00 / 0:00' });
-			
-			// Volume control
-			const volumeContainer = playerDiv.createDiv({ cls: 'gemini-tts-volume-container' });
-			const volumeLabel = volumeContainer.createEl('span', { cls: 'gemini-tts-volume-label', text: '🔊' });
-			const volumeSlider = volumeContainer.createEl('input', { cls: 'gemini-tts-volume-slider', attr: { type: 'range', min: '0', max: '100', value: '100' } }) as HTMLInputElement;
-			
-			if (this.plugin.currentAudio) {
-				// Set initial volume
-				this.plugin.currentAudio.volume = 1.0;
-				
-				// Update progress bar
-				const updateProgress = () => {
-					const current = Math.floor(this.plugin.currentAudio?.currentTime || 0);
-					const duration = Math.floor(this.plugin.currentAudio?.duration || 0);
-					
-					if (duration > 0) {
-						progressBar.max = duration.toString();
-						progressBar.value = current.toString();
-					}
-					
-					const currentMin = Math.floor(current / 60);
-					const currentSec = (current % 60).toString().padStart(2, '0');
-					const durationMin = Math.floor(duration / 60);
-					const durationSec = (duration % 60).toString().padStart(2, '0');
-					timeDiv.textContent = `${currentMin}:${currentSec} / ${durationMin}:${durationSec}`;
-				};
-				
-				this.plugin.currentAudio.addEventListener('timeupdate', updateProgress);
-				this.plugin.currentAudio.addEventListener('loadedmetadata', updateProgress);
-				
-				// Seeking via progress bar
-				progressBar.addEventListener('input', (e) => {
-					const newTime = parseFloat((e.target as HTMLInputElement).value);
-					if (this.plugin.currentAudio) {
-						this.plugin.currentAudio.currentTime = newTime;
-					}
-				});
-				
-				// Volume control
-				volumeSlider.addEventListener('input', (e) => {
-					const volume = parseFloat((e.target as HTMLInputElement).value) / 100;
-					if (this.plugin.currentAudio) {
-						this.plugin.currentAudio.volume = volume;
-					}
-				});
-			}
+			this.scheduleAhead();
 		}
 	}
-}
 
-export default class GeminiTTSPlugin extends Plugin {
-	settings: GeminiTTSSettings;
-	statusBarItem: HTMLElement;
-	currentAudio: HTMLAudioElement | null = null;
-	currentAudioBlob: Blob | null = null;
-	isPlaying: boolean = false;
-	isPaused: boolean = false;
-	audioPlayerView: HTMLElement | null = null;
-	sidebarView: GeminiTTSSidebarView | null = null;
+	/**
+	 * Returns where each generated chunk starts on the timeline and how long it is.
+	 */
+	getChunkTimings(): { offset: number; duration: number }[] {
+		return this.buffers.map((buffer, i) => ({ offset: this.offsets[i], duration: buffer.duration }));
+	}
 
-	async onload() {
-		await this.loadSettings();
+	/**
+	 * Signals that no more chunks will be appended, so reaching the end of the
+	 * timeline means playback has ended rather than that it is waiting.
+	 */
+	markComplete() {
+		this.complete = true;
+		if (this.playing && this.waiting) {
+			this.finish();
+		}
+	}
 
-		// Register sidebar view
-		this.registerView(SIDEBAR_VIEW_TYPE, (leaf) => {
-			this.sidebarView = new GeminiTTSSidebarView(leaf, this);
-			return this.sidebarView;
-		});
+	async play() {
+		if (this.closed) return;
+		if (this.context && this.context.state === 'suspended') {
+			await this.context.resume();
+		}
+		if (this.playing) return;
 
-		// Open sidebar automatically on startup
-		this.app.workspace.onLayoutReady(async () => {
-			const existing = this.app.workspace.getLeavesOfType(SIDEBAR_VIEW_TYPE);
-			if (existing.length === 0) {
-				const rightLeaf = this.app.workspace.getRightLeaf(false);
-				if (rightLeaf) {
-					await rightLeaf.setViewState({
-						type: SIDEBAR_VIEW_TYPE,
-						active: true
-					});
-				}
-			}
-		});
+		if (this.complete && this.position >= this.duration) {
+			this.position = 0;
+		}
 
-		// Add sidebar toggle command
-		this.addCommand({
-			id: 'toggle-tts-sidebar',
-			name: 'Toggle TTS sidebar',
-			callback: async () => {
-				const existing = this.app.workspace.getLeavesOfType(SIDEBAR_VIEW_TYPE);
-				if (existing.length > 0) {
-					this.app.workspace.detachLeavesOfType(SIDEBAR_VIEW_TYPE);
-				} else {
-					const rightLeaf = this.app.workspace.getRightLeaf(false);
-					if (rightLeaf) {
-						await rightLeaf.setViewState({
-							type: SIDEBAR_VIEW_TYPE,
-							active: true
-						});
-					}
-				}
-			}
-		});
+		this.playing = true;
+		if (this.position >= this.duration) {
+			this.waiting = true;
+		} else {
+			this.scheduleFrom(this.position);
+		}
+		this.startTimer();
+		this.emit('play');
+	}
 
-		// Add status bar item
-		this.statusBarItem = this.addStatusBarItem();
-		this.statusBarItem.setText('Gemini TTS');
+	pause() {
+		if (!this.playing) return;
+		this.position = this.currentTime;
+		this.playing = false;
+		this.waiting = false;
+		this.stopSources();
+		this.stopTimer();
+		this.emit('pause');
+	}
 
-		// Add ribbon icon
-		const ribbonIconEl = this.addRibbonIcon('microphone', 'Gemini TTS', async (evt: MouseEvent) => {
-			await this.readActiveNote();
-		});
-		ribbonIconEl.addClass('gemini-tts-ribbon-class');
+	close() {
+		this.stopSources();
+		this.stopTimer();
+		this.playing = false;
+		this.closed = true;
+		if (this.context) {
+			this.context.close();
+			this.context = null;
+		}
+	}
 
-		// Add command to read active note
-		this.addCommand({
-			id: 'read-active-note',
-			name: 'Read active note',
-			callback: async () => {
-				await this.readActiveNote();
-			}
-		});
+	/**
+	 * Returns all chunks stitched together as mono 16-bit PCM.
+	 */
+	toPcm(): { pcm: ArrayBuffer; sampleRate: number } {
+		return stitchToPcm(this.buffers);
+	}
 
-		// Add command to stop playback
-		this.addCommand({
-			id: 'stop-playback',
-			name: 'Stop playback',
-			callback: () => {
-				this.stopPlayback();
-			}
-		});
+	/**
+	 * Starts playing from a position. Only the chunk at the position is
+	 * scheduled here; the ones after it follow in scheduleAhead.
+	 */
+	private scheduleFrom(position: number) {
+		if (!this.context) return;
+		this.startedAt = this.context.currentTime + ChunkedAudioPlayer.SCHEDULE_LEAD - position / this.rate;
 
-		// Add command to pause/resume playback
-		this.addCommand({
-			id: 'pause-resume-playback',
-			name: 'Pause/Resume playback',
-			callback: () => {
-				this.togglePauseResume();
-			}
-		});
+		const index = this.buffers.findIndex((buffer, i) => this.offsets[i] + buffer.duration > position);
+		if (index === -1) {
+			this.nextToSchedule = this.buffers.length;
+			return;
+		}
+		const offsetIntoBuffer = Math.max(0, position - this.offsets[index]);
+		this.scheduleBuffer(index, this.startedAt + (this.offsets[index] + offsetIntoBuffer) / this.rate, offsetIntoBuffer);
+		this.nextToSchedule = index + 1;
+		this.scheduleAhead();
+	}
 
-		// Add command to save current audio
-		this.addCommand({
-			id: 'save-current-audio',
-			name: 'Save current audio to file',
-			callback: () => {
-				this.saveCurrentAudio();
-			}
-		});
+	/**
+	 * Schedules the chunks that start within the next few seconds, so chunks
+	 * are only time-stretched shortly before they are needed.
+	 */
+	private scheduleAhead() {
+		if (!this.context || !this.playing || this.waiting) return;
+		while (this.nextToSchedule < this.buffers.length) {
+			const when = this.startedAt + this.offsets[this.nextToSchedule] / this.rate;
+			if (when - this.context.currentTime > ChunkedAudioPlayer.SCHEDULE_AHEAD) break;
+			this.scheduleBuffer(this.nextToSchedule, when, 0);
+			this.nextToSchedule++;
+		}
+	}
 
-		// Add settings tab
-		this.addSettingTab(new GeminiTTSSettingTab(this.app, this));
+	private scheduleBuffer(index: number, when: number, offsetIntoBuffer: number) {
+		if (!this.context || !this.gainNode) return;
+		const source = this.context.createBufferSource();
+		source.buffer = this.getBuffer(index);
+		source.connect(this.gainNode);
+		source.onended = () => {
+			this.sources = this.sources.filter(s => s !== source);
+		};
+		source.start(when, offsetIntoBuffer / this.rate);
+		this.sources.push(source);
 	}
 
-	onunload() {
-		this.stopPlayback();
+	private getBuffer(index: number): AudioBuffer {
+		if (this.rate === 1 || !this.context) return this.buffers[index];
+		let buffer = this.stretched.get(index);
+		if (!buffer) {
+			buffer = timeStretch(this.context, this.buffers[index], this.rate);
+			this.stretched.set(index, buffer);
+		}
+		return buffer;
 	}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+	private stopSources() {
+		for (const source of this.sources) {
+			source.onended = null;
+			try {
+				source.stop();
+			} catch (e) {
+				// Source was never started or has already stopped
+			}
+			source.disconnect();
+		}
+		this.sources = [];
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	private startTimer() {
+		this.stopTimer();
+		this.timer = window.setInterval(() => this.tick(), 250);
 	}
 
-	cleanText(text: string): string {
-		let cleanedText = text;
+	private stopTimer() {
+		if (this.timer !== null) {
+			window.clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
 
-		// Remove frontmatter (YAML) - handle both start and end of file cases
-		cleanedText = cleanedText.replace(/^---\n[\s\S]*?\n---(\n|$)/m, '');
+	private tick() {
+		if (!this.playing) return;
+		this.scheduleAhead();
+		this.emit('timeupdate');
 
-		// Remove code blocks if skipCodeBlocks is enabled
-		if (this.settings.skipCodeBlocks) {
-			// Remove triple backtick code blocks
-			cleanedText = cleanedText.replace(/```[\s\S]*?```/g, '');
-			// Remove inline code
-			cleanedText = cleanedText.replace(/`[^`]+`/g, '');
+		if (!this.waiting && this.currentTime >= this.duration) {
+			if (this.complete) {
+				this.finish();
+			} else {
+				// Caught up with generation, wait for the next chunk
+				this.waiting = true;
+				this.position = this.duration;
+				this.emit('waiting');
+			}
 		}
+	}
+
+	private finish() {
+		this.position = this.duration;
+		this.playing = false;
+		this.waiting = false;
+		this.stopSources();
+		this.stopTimer();
+		this.emit('timeupdate');
+		this.emit('ended');
+	}
+
+	private emit(type: string) {
+		this.dispatchEvent(new Event(type));
+	}
+}
+
+class BudgetExceededError extends TTSRequestError {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BudgetExceededError';
+	}
+}
+
+interface SynthesizedAudio {
+	buffer: ArrayBuffer;
+	mimeType: string;
+	sampleRate?: number;
+}
+
+type TTSProviderId = 'gemini' | 'openai';
+
+// Provider ids and their names, in the order shown in settings
+const TTS_PROVIDERS: [TTSProviderId, string][] = [
+	['gemini', 'Google Gemini'],
+	['openai', 'OpenAI-compatible server']
+];
+
+// Built-in OpenAI voices. Self-hosted servers often have their own, so any name is accepted
+const OPENAI_VOICES: [string, string][] = [
+	['alloy', 'Neutral'],
+	['ash', 'Warm'],
+	['ballad', 'Expressive'],
+	['coral', 'Bright'],
+	['echo', 'Calm'],
+	['fable', 'Storyteller'],
+	['nova', 'Energetic'],
+	['onyx', 'Deep'],
+	['sage', 'Measured'],
+	['shimmer', 'Light'],
+	['verse', 'Versatile']
+];
+
+// Roughly how many characters of text are spoken per second
+const SPOKEN_CHARACTERS_PER_SECOND = 15;
+
+interface SpeechPricing {
+	// USD per million characters of input text
+	perMillionCharacters: number;
+	// USD per minute of generated audio
+	perAudioMinute: number;
+}
+
+// Published list prices, matched on the model name. Gemini bills about four
+// characters per input token and 25 tokens per second of audio.
+const SPEECH_PRICING: [TTSProviderId, RegExp, SpeechPricing][] = [
+	['gemini', /pro.*tts/, { perMillionCharacters: 0.25, perAudioMinute: 0.03 }],
+	['gemini', /tts/, { perMillionCharacters: 0.125, perAudioMinute: 0.015 }],
+	['openai', /^gpt-4o-mini-tts/, { perMillionCharacters: 0.15, perAudioMinute: 0.015 }],
+	['openai', /^tts-1-hd/, { perMillionCharacters: 30, perAudioMinute: 0 }],
+	['openai', /^tts-1/, { perMillionCharacters: 15, perAudioMinute: 0 }]
+];
 
-		// Remove headers (# symbols) but keep text
-		cleanedText = cleanedText.replace(/^#{1,6}\s+(.*)$/gm, '$1');
+/**
+ * Estimates the cost in USD of reading a number of characters aloud, from the
+ * length of the audio when it is known. Returns null for models without a
+ * known price, including self-hosted servers.
+ */
+function estimateSpeechCost(provider: TTSProvider, modelName: string, characters: number, audioSeconds: number = characters / SPOKEN_CHARACTERS_PER_SECOND): number | null {
+	if (provider.id === 'openai' && !provider.getEndpoint().includes('api.openai.com')) return null;
+	const match = SPEECH_PRICING.find(([id, pattern]) => id === provider.id && pattern.test(modelName));
+	if (!match) return null;
+	const { perMillionCharacters, perAudioMinute } = match[2];
+	return characters / 1e6 * perMillionCharacters + audioSeconds / 60 * perAudioMinute;
+}
+
+interface SpeechRequest {
+	text: string;
+	modelName: string;
+	voiceName: string;
+	stylePrompt: string;
+	// Speaker label -> voice, for providers with multi-speaker support
+	speakerVoices?: Record<string, string>;
+	// Gemini API key to use instead of the active one
+	apiKeyId?: string;
+}
 
-		// Remove bold markers
-		cleanedText = cleanedText.replace(/\*\*([^*]+)\*\*/g, '$1');
-		cleanedText = cleanedText.replace(/__([^_]+)__/g, '$1');
+/**
+ * A speech backend. Providers read their settings from the plugin when a
+ * request is made, so changes apply without reloading.
+ */
+interface TTSProvider {
+	id: TTSProviderId;
+	name: string;
+	// Whether one request can read two speakers in different voices
+	supportsMultiSpeaker: boolean;
+	getVoices(): [string, string][];
+	getDefaultVoice(): string;
+	getModelName(): string;
+	// Identifies the server, so cached audio from one is not reused for another
+	getEndpoint(): string;
+	synthesize(request: SpeechRequest, signal?: AbortSignal): Promise<SynthesizedAudio>;
+}
 
-		// Remove italic markers
-		cleanedText = cleanedText.replace(/\*([^*]+)\*/g, '$1');
-		cleanedText = cleanedText.replace(/_([^_]+)_/g, '$1');
+// Finish reasons that mean the model refused to produce the content
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION', 'IMAGE_SAFETY'];
 
-		// Convert markdown links [text](url) to just text
-		cleanedText = cleanedText.replace(/\[([^\]]+)\]\([^\)]+\)/g, '$1');
+// The parts of a generateContent response the plugin reads
+interface GeminiPart {
+	text?: string;
+	inlineData?: { data: string; mimeType?: string };
+}
 
-		// Convert wikilinks [[text]] to just text
-		cleanedText = cleanedText.replace(/\[\[(?:[^\]|]*\|)?([^\]]+)\]\]/g, '$1');
+interface GeminiResponse {
+	promptFeedback?: { blockReason?: string };
+	candidates?: { content?: { parts?: GeminiPart[] }; finishReason?: string }[];
+}
 
-		// Remove blockquotes
-		cleanedText = cleanedText.replace(/^>\s+/gm, '');
+/**
+ * Gemini speech generation through generateContent.
+ */
+class GeminiProvider implements TTSProvider {
+	static readonly DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
 
-		// Remove list markers (simple)
-		cleanedText = cleanedText.replace(/^[-*+]\s+/gm, '');
-		cleanedText = cleanedText.replace(/^\d+\.\s+/gm, '');
+	id: TTSProviderId = 'gemini';
+	name = 'Gemini';
+	supportsMultiSpeaker = true;
+	private plugin: GeminiTTSPlugin;
 
-		return cleanedText.trim();
+	constructor(plugin: GeminiTTSPlugin) {
+		this.plugin = plugin;
 	}
 
-	pcmToWav(pcmBuffer: ArrayBuffer, sampleRate: number = 24000): ArrayBuffer {
-		const pcmData = new Uint8Array(pcmBuffer);
-		const channels = 1;
-		const bytesPerSample = 2;
-		const numSamples = pcmData.length / bytesPerSample;
-		
-		// WAV file header
-		const headerLength = 44;
-		const wav = new Uint8Array(headerLength + pcmData.length);
-		
-		// Helper to write integers to the buffer
-		const writeInt32 = (offset: number, value: number) => {
-			wav[offset] = value & 0xff;
-			wav[offset + 1] = (value >> 8) & 0xff;
-			wav[offset + 2] = (value >> 16) & 0xff;
-			wav[offset + 3] = (value >> 24) & 0xff;
-		};
-		
-		const writeInt16 = (offset: number, value: number) => {
-			wav[offset] = value & 0xff;
-			wav[offset + 1] = (value >> 8) & 0xff;
-		};
-		
-		// RIFF header
-		wav.set([0x52, 0x49, 0x46, 0x46], 0); // "RIFF"
-		writeInt32(4, 36 + pcmData.length); // File size - 8
-		wav.set([0x57, 0x41, 0x56, 0x45], 8); // "WAVE"
-		
-		// fmt sub-chunk
-		wav.set([0x66, 0x6d, 0x74, 0x20], 12); // "fmt "
-		writeInt32(16, 16); // Sub-chunk size (16 for PCM)
-		writeInt16(20, 1); // Audio format (1 = PCM)
-		writeInt16(22, channels); // Number of channels
-		writeInt32(24, sampleRate); // Sample rate
-		writeInt32(28, sampleRate * channels * bytesPerSample); // Byte rate
-		writeInt16(32, channels * bytesPerSample); // Block align
-		writeInt16(34, 16); // Bits per sample
-		
-		// data sub-chunk
-		wav.set([0x64, 0x61, 0x74, 0x61], 36); // "data"
-		writeInt32(40, pcmData.length); // Sub-chunk size
-		
-		// Copy PCM data
-		wav.set(pcmData, headerLength);
-		
-		return wav.buffer;
+	getVoices(): [string, string][] {
+		return GEMINI_VOICES;
 	}
 
-	async fetchGeminiAudio(text: string): Promise<{ buffer: ArrayBuffer; mimeType: string }> {
-		const { apiKey, modelName, voiceName, stylePrompt } = this.settings;
-		
-		if (!apiKey) {
-			throw new Error('API key not configured. Please set your Gemini API key in plugin settings.');
-		}
+	getDefaultVoice(): string {
+		return this.plugin.settings.voiceName;
+	}
 
-		const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${apiKey}`;
+	getModelName(): string {
+		return this.plugin.settings.modelName;
+	}
 
-		// Extract just the voice name, removing description if present (e.g., "Zephyr - Bright" -> "Zephyr")
-		const cleanVoiceName = voiceName.includes(' - ') ? voiceName.split(' - ')[0] : voiceName;
+	getEndpoint(): string {
+		return GeminiProvider.DEFAULT_BASE_URL;
+	}
 
+	async synthesize(request: SpeechRequest, signal?: AbortSignal): Promise<SynthesizedAudio> {
+		const speakers = request.speakerVoices ? Object.keys(request.speakerVoices) : [];
 		const payload = {
 			contents: [{ 
-				parts: [{ text: text }] 
+				parts: [{ text: this.buildSpeechPrompt(request.text, request.stylePrompt, speakers) }] 
 			}],
 			generationConfig: {
 				responseModalities: ["AUDIO"],
-				speechConfig: {
-					voiceConfig: {
-						prebuiltVoiceConfig: { 
-							voiceName: cleanVoiceName 
-						}
-					}
-				}
+				speechConfig: this.buildSpeechConfig(request.voiceName, request.speakerVoices)
 			}
 		};
 
+		const response = await this.send(`/models/${request.modelName}:generateContent`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify(payload)
+		}, signal, this.plugin.getGeminiApiKey(request.apiKeyId));
+
+		const { data: base64Audio, mimeType } = this.extractAudio(await response.json());
+		console.log('[Gemini TTS] ✓ Audio data received, size:', base64Audio.length, 'characters');
+
+		// Convert base64 to ArrayBuffer
+		let audioBuffer: ArrayBuffer;
 		try {
-			console.log('[Gemini TTS] Requesting audio generation for', text.length, 'characters');
+			const binaryString = atob(base64Audio);
+			const bytes = new Uint8Array(binaryString.length);
+			for (let i = 0; i < binaryString.length; i++) {
+				bytes[i] = binaryString.charCodeAt(i);
+			}
+			audioBuffer = bytes.buffer;
+			console.log('[Gemini TTS] ✓ Converted to ArrayBuffer, size:', audioBuffer.byteLength, 'bytes');
+		} catch (decodeError) {
+			console.error('[Gemini TTS] Failed to decode base64:', decodeError);
+			throw new TTSRequestError(`Failed to decode audio data: ${decodeError.message}`);
+		}
+
+		let playbackMimeType = 'audio/mpeg'; // Default
+		let sampleRate: number | undefined;
+
+		// Detect format and convert if necessary
+		if (mimeType?.includes('L16') || mimeType?.includes('pcm')) {
+			console.log('[Gemini TTS] ⚠️ Detected PCM audio, converting to WAV format');
+			// Extract sample rate from MIME type (e.g., "audio/L16;codec=pcm;rate=24000")
+			const rateMatch = mimeType?.match(/rate=(\d+)/);
+			sampleRate = rateMatch ? parseInt(rateMatch[1]) : 24000;
 			
-			const startTime = performance.now();
-			const response = await fetch(endpoint, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json'
-				},
-				body: JSON.stringify(payload)
-			});
+			// Convert PCM to WAV
+			audioBuffer = this.plugin.pcmToWav(audioBuffer, sampleRate);
+			playbackMimeType = 'audio/wav';
+			console.log('[Gemini TTS] ✓ Converted to WAV, new size:', audioBuffer.byteLength, 'bytes');
+		} else if (mimeType?.includes('mpeg')) {
+			playbackMimeType = 'audio/mpeg';
+		} else if (mimeType?.includes('ogg')) {
+			playbackMimeType = 'audio/ogg';
+		}
+
+		console.log('[Gemini TTS] Using MIME type for playback:', playbackMimeType);
+		return { buffer: audioBuffer, mimeType: playbackMimeType, sampleRate };
+	}
 
-			const fetchTime = performance.now() - startTime;
-			console.log('[Gemini TTS] API Response Status:', response.status, response.statusText);
-			console.log('[Gemini TTS] Fetch time:', fetchTime.toFixed(2), 'ms');
+	/**
+	 * Prefixes the text with the style prompt so the model applies it as a
+	 * reading instruction rather than reading it aloud.
+	 */
+	buildSpeechPrompt(text: string, stylePrompt: string, speakers: string[] = []): string {
+		let instruction = stylePrompt.trim().replace(/[.:;,\s]+$/, '');
+		if (speakers.length > 0) {
+			const conversation = `Read the following conversation between ${speakers.join(' and ')}`;
+			instruction = instruction ? `${instruction}. ${conversation}` : conversation;
+		}
+		if (!instruction) return text;
+		return `${instruction}:\n${text}`;
+	}
+
+	/**
+	 * Builds the speech config for a single voice, or a multi-speaker config
+	 * when speaker voices are given.
+	 */
+	buildSpeechConfig(voiceName: string, speakerVoices?: Record<string, string>) {
+		if (speakerVoices && Object.keys(speakerVoices).length > 0) {
+			return {
+				multiSpeakerVoiceConfig: {
+					speakerVoiceConfigs: Object.entries(speakerVoices).map(([speaker, voice]) => ({
+						speaker,
+						voiceConfig: {
+							prebuiltVoiceConfig: { voiceName: voice }
+						}
+					}))
+				}
+			};
+		}
 
-			if (!response.ok) {
-				const errorText = await response.text();
-				console.error('[Gemini TTS] API Error:', response.status, response.statusText);
-				throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+		return {
+			voiceConfig: {
+				prebuiltVoiceConfig: { 
+					voiceName: this.plugin.resolveVoiceName(voiceName, this) 
+				}
 			}
+		};
+	}
+
+	/**
+	 * Returns the first inline audio part of a response, or throws when the
+	 * prompt or the answer was blocked.
+	 */
+	private extractAudio(response: GeminiResponse): { data: string; mimeType?: string } {
+		const blockReason = response.promptFeedback?.blockReason;
+		if (blockReason) {
+			throw new SafetyBlockedError(blockReason);
+		}
 
-			const data = await response.json();
-			console.log('[Gemini TTS] ✓ Audio received from API');
+		const candidate = response.candidates?.[0];
+		if (!candidate) {
+			throw new TTSRequestError('Invalid response structure from API: no candidates');
+		}
 
-			if (!data.candidates || !data.candidates[0]) {
-				console.error('[Gemini TTS] Invalid response structure: no candidates');
-				throw new Error('Invalid response structure from API: no candidates');
+		const inlineData = candidate.content?.parts?.find(part => part.inlineData)?.inlineData;
+		if (!inlineData?.data) {
+			if (candidate.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+				throw new SafetyBlockedError(candidate.finishReason);
 			}
+			throw new TTSRequestError(`No audio data in response${candidate.finishReason ? ` (${candidate.finishReason})` : ''}`);
+		}
+
+		return inlineData;
+	}
 
-			if (!data.candidates[0].content || !data.candidates[0].content.parts || !data.candidates[0].content.parts[0]) {
-				console.error('[Gemini TTS] Invalid content structure');
-				throw new Error('Invalid response structure from API: no content/parts');
+	/**
+	 * Generates text with a Gemini text model, for summaries and translations.
+	 */
+	async generateText(prompt: string, modelName: string, signal?: AbortSignal): Promise<string> {
+		const response = await this.send(`/models/${modelName}:generateContent`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }] })
+		}, signal);
+
+		const data: GeminiResponse = await response.json();
+		const blockReason = data.promptFeedback?.blockReason;
+		if (blockReason) {
+			throw new SafetyBlockedError(blockReason);
+		}
+		const candidate = data.candidates?.[0];
+		const text = (candidate?.content?.parts || []).map(part => part.text || '').join('').trim();
+		if (!text) {
+			if (candidate?.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+				throw new SafetyBlockedError(candidate.finishReason);
 			}
+			throw new TTSRequestError(`No text in response${candidate?.finishReason ? ` (${candidate.finishReason})` : ''}`);
+		}
+		return text;
+	}
 
-			const inlineData = data.candidates[0].content.parts[0].inlineData;
-			const base64Audio = inlineData?.data;
-			const mimeType = inlineData?.mimeType;
-			
-			if (!base64Audio) {
-				console.error('[Gemini TTS] No audio data in response');
-				throw new Error('No audio data in response');
+	/**
+	 * Lists the models that can generate speech, such as gemini-2.5-flash-preview-tts.
+	 */
+	async listSpeechModels(): Promise<string[]> {
+		const response = await this.send('/models?pageSize=1000', { method: 'GET' });
+		const data = await response.json();
+		const models: { name: string; supportedGenerationMethods?: string[] }[] = data.models || [];
+		return models
+			.filter(model => /tts/i.test(model.name) && (model.supportedGenerationMethods || []).includes('generateContent'))
+			.map(model => model.name.replace(/^models\//, ''))
+			.sort();
+	}
+
+	/**
+	 * Checks an API key by listing a single model, which costs nothing.
+	 */
+	async testKey(apiKey: string) {
+		await this.send('/models?pageSize=1', { method: 'GET' }, undefined, apiKey);
+	}
+
+	/**
+	 * Sends a request to the Gemini API. The key goes in a header rather than
+	 * the URL, so it does not show up in logs and error traces.
+	 */
+	private async send(path: string, init: RequestInit, signal?: AbortSignal, apiKey: string = this.plugin.getGeminiApiKey()): Promise<Response> {
+		if (!apiKey) {
+			throw new InvalidApiKeyError('API key not configured. Please set your Gemini API key in plugin settings.');
+		}
+
+		const { requestTimeoutSeconds, maxRetries } = this.plugin.settings;
+		const client = new TTSHttpClient({ timeoutSeconds: requestTimeoutSeconds, maxRetries });
+		return client.send(`${this.getEndpoint()}${path}`, {
+			...init,
+			headers: { ...init.headers, 'x-goog-api-key': apiKey }
+		}, toGeminiError, signal);
+	}
+}
+
+/**
+ * Any server with an OpenAI-style /audio/speech route: OpenAI itself, or a
+ * self-hosted Piper, Coqui or Kokoro server.
+ */
+class OpenAICompatibleProvider implements TTSProvider {
+	id: TTSProviderId = 'openai';
+	name = 'OpenAI-compatible server';
+	supportsMultiSpeaker = false;
+	private plugin: GeminiTTSPlugin;
+
+	constructor(plugin: GeminiTTSPlugin) {
+		this.plugin = plugin;
+	}
+
+	getVoices(): [string, string][] {
+		return OPENAI_VOICES;
+	}
+
+	getDefaultVoice(): string {
+		return this.plugin.settings.openaiVoice;
+	}
+
+	getModelName(): string {
+		return this.plugin.settings.openaiModel;
+	}
+
+	getEndpoint(): string {
+		return this.plugin.settings.openaiBaseUrl.trim().replace(/\/+$/, '');
+	}
+
+	async synthesize(request: SpeechRequest, signal?: AbortSignal): Promise<SynthesizedAudio> {
+		const { openaiApiKey, requestTimeoutSeconds, maxRetries } = this.plugin.settings;
+		const baseUrl = this.getEndpoint();
+		if (!baseUrl) {
+			throw new TTSRequestError('Server URL not configured. Please set it in plugin settings.');
+		}
+
+		const payload: Record<string, string> = {
+			model: request.modelName,
+			input: request.text,
+			voice: request.voiceName,
+			response_format: 'wav'
+		};
+		if (request.stylePrompt.trim()) {
+			payload.instructions = request.stylePrompt.trim();
+		}
+
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (openaiApiKey) {
+			headers['Authorization'] = `Bearer ${openaiApiKey}`;
+		}
+
+		const client = new TTSHttpClient({ timeoutSeconds: requestTimeoutSeconds, maxRetries });
+		const response = await client.send(`${baseUrl}/audio/speech`, {
+			method: 'POST',
+			headers,
+			body: JSON.stringify(payload)
+		}, toOpenAIError, signal);
+
+		const buffer = await response.arrayBuffer();
+		const mimeType = response.headers.get('Content-Type') || 'audio/wav';
+		console.log('[Gemini TTS] ✓ Audio received from', new URL(baseUrl).host, 'size:', buffer.byteLength, 'bytes');
+		return { buffer, mimeType };
+	}
+}
+
+interface AudioCacheEntry {
+	size: number;
+	lastUsed: number;
+	mimeType: string;
+	sampleRate?: number;
+}
+
+interface AudioCacheIndex {
+	entries: Record<string, AudioCacheEntry>;
+	// Content key of a whole reading -> vault path it was saved to
+	savedFiles: Record<string, string>;
+}
+
+/**
+ * Content-addressed cache of synthesised chunks, stored in the plugin folder.
+ * Entries are keyed on a hash of the text and everything that affects how it
+ * sounds, and the least recently used ones are evicted past the size limit.
+ */
+class AudioCache {
+	private plugin: GeminiTTSPlugin;
+	private index: AudioCacheIndex = { entries: {}, savedFiles: {} };
+	private loaded = false;
+	// Cache hits only move last-used times, so their index writes are batched
+	private saveIndexLater = debounce(() => this.saveIndex(), 5000, true);
+
+	constructor(plugin: GeminiTTSPlugin) {
+		this.plugin = plugin;
+	}
+
+	get folder(): string {
+		const { manifest, app } = this.plugin;
+		return `${manifest.dir || `${app.vault.configDir}/plugins/${manifest.id}`}/cache`;
+	}
+
+	get totalSize(): number {
+		return Object.values(this.index.entries).reduce((total, entry) => total + entry.size, 0);
+	}
+
+	async hash(value: unknown): Promise<string> {
+		const data = new TextEncoder().encode(JSON.stringify(value));
+		const digest = await crypto.subtle.digest('SHA-256', data);
+		return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+	}
+
+	async load() {
+		if (this.loaded) return;
+		this.loaded = true;
+		const adapter = this.plugin.app.vault.adapter;
+		try {
+			if (await adapter.exists(this.indexPath)) {
+				const index = JSON.parse(await adapter.read(this.indexPath));
+				this.index = { entries: index.entries || {}, savedFiles: index.savedFiles || {} };
 			}
+		} catch (error) {
+			console.error('[Gemini TTS] Could not read audio cache index:', error);
+		}
+	}
 
-			console.log('[Gemini TTS] ✓ Audio data received, size:', base64Audio.length, 'characters');
+	async has(key: string): Promise<boolean> {
+		await this.load();
+		return key in this.index.entries;
+	}
 
-			// Convert base64 to ArrayBuffer
-			try {
-				const binaryString = atob(base64Audio);
-				const bytes = new Uint8Array(binaryString.length);
-				for (let i = 0; i < binaryString.length; i++) {
-					bytes[i] = binaryString.charCodeAt(i);
-				}
-				console.log('[Gemini TTS] ✓ Converted to ArrayBuffer, size:', bytes.buffer.byteLength, 'bytes');
-				
-				let audioBuffer = bytes.buffer;
-				let playbackMimeType = 'audio/mpeg'; // Default
-				
-				// Detect format and convert if necessary
-				if (mimeType?.includes('L16') || mimeType?.includes('pcm')) {
-					console.log('[Gemini TTS] ⚠️ Detected PCM audio, converting to WAV format');
-					// Extract sample rate from MIME type (e.g., "audio/L16;codec=pcm;rate=24000")
-					const rateMatch = mimeType?.match(/rate=(\d+)/);
-					const sampleRate = rateMatch ? parseInt(rateMatch[1]) : 24000;
-					
-					// Convert PCM to WAV
-					audioBuffer = this.pcmToWav(audioBuffer, sampleRate);
-					playbackMimeType = 'audio/wav';
-					console.log('[Gemini TTS] ✓ Converted to WAV, new size:', audioBuffer.byteLength, 'bytes');
-				} else if (mimeType?.includes('mpeg')) {
-					playbackMimeType = 'audio/mpeg';
-				} else if (mimeType?.includes('ogg')) {
-					playbackMimeType = 'audio/ogg';
-				}
-				
-				console.log('[Gemini TTS] Using MIME type for playback:', playbackMimeType);
-				console.log('[Gemini TTS] ========== END API REQUEST ==========');
-				
-				// Return both buffer and MIME type so we can use the correct format
-				return { buffer: audioBuffer, mimeType: playbackMimeType } as any;
-			} catch (decodeError) {
-				console.error('[Gemini TTS] Failed to decode base64:', decodeError);
-				throw new Error(`Failed to decode audio data: ${decodeError.message}`);
+	async get(key: string): Promise<SynthesizedAudio | null> {
+		await this.load();
+		const entry = this.index.entries[key];
+		if (!entry) return null;
+
+		const adapter = this.plugin.app.vault.adapter;
+		const path = this.pathFor(key);
+		if (!await adapter.exists(path)) {
+			delete this.index.entries[key];
+			await this.saveIndex();
+			return null;
+		}
+
+		entry.lastUsed = Date.now();
+		this.saveIndexLater();
+		return { buffer: await adapter.readBinary(path), mimeType: entry.mimeType, sampleRate: entry.sampleRate };
+	}
+
+	async put(key: string, audio: SynthesizedAudio) {
+		await this.load();
+		const adapter = this.plugin.app.vault.adapter;
+		if (!await adapter.exists(this.folder)) {
+			await adapter.mkdir(this.folder);
+		}
+
+		await adapter.writeBinary(this.pathFor(key), audio.buffer);
+		this.index.entries[key] = {
+			size: audio.buffer.byteLength,
+			lastUsed: Date.now(),
+			mimeType: audio.mimeType,
+			sampleRate: audio.sampleRate
+		};
+		await this.prune();
+		await this.saveIndex();
+	}
+
+	getSavedFile(contentKey: string): string | null {
+		return this.index.savedFiles[contentKey] || null;
+	}
+
+	async setSavedFile(contentKey: string, path: string) {
+		await this.load();
+		this.index.savedFiles[contentKey] = path;
+		await this.saveIndex();
+	}
+
+	/**
+	 * Removes the least recently used entries until the cache fits its size limit.
+	 */
+	async prune() {
+		const maxSize = Math.max(0, this.plugin.settings.cacheMaxSizeMB) * 1024 * 1024;
+		let total = this.totalSize;
+		if (total <= maxSize) return;
+
+		const byAge = Object.entries(this.index.entries).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+		for (const [key, entry] of byAge) {
+			if (total <= maxSize) break;
+			await this.removeEntry(key);
+			total -= entry.size;
+		}
+		console.log('[Gemini TTS] Pruned audio cache to', (total / 1024 / 1024).toFixed(1), 'MB');
+	}
+
+	async clear() {
+		await this.load();
+		for (const key of Object.keys(this.index.entries)) {
+			await this.removeEntry(key);
+		}
+		this.index = { entries: {}, savedFiles: {} };
+		await this.saveIndex();
+	}
+
+	private get indexPath(): string {
+		return `${this.folder}/index.json`;
+	}
+
+	private pathFor(key: string): string {
+		return `${this.folder}/${key}.audio`;
+	}
+
+	private async removeEntry(key: string) {
+		const adapter = this.plugin.app.vault.adapter;
+		const path = this.pathFor(key);
+		try {
+			if (await adapter.exists(path)) {
+				await adapter.remove(path);
 			}
 		} catch (error) {
-			console.error('[Gemini TTS] Fetch error:', error.message);
-			throw new Error(`Failed to fetch audio: ${error.message}`);
+			console.error('[Gemini TTS] Could not remove cached audio:', path, error);
 		}
+		delete this.index.entries[key];
 	}
 
-	async readActiveNote() {
-		// Stop any currently playing audio
-		this.stopPlayback();
+	/**
+	 * Writes out last-used times that are waiting to be saved.
+	 */
+	flush() {
+		this.saveIndexLater.run();
+	}
 
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!activeView) {
-			new Notice('No active note found');
+	private async saveIndex() {
+		this.saveIndexLater.cancel();
+		const adapter = this.plugin.app.vault.adapter;
+		if (!await adapter.exists(this.folder)) {
+			await adapter.mkdir(this.folder);
+		}
+		await adapter.write(this.indexPath, JSON.stringify(this.index));
+	}
+}
+
+type AudioStorage = 'note-folder' | 'central' | 'mirrored';
+
+// Where saved audio goes, in the order shown in settings
+const AUDIO_STORAGE_OPTIONS: [AudioStorage, string][] = [
+	['note-folder', 'Next to the note'],
+	['central', 'Audio output folder'],
+	['mirrored', 'Audio output folder, mirroring note folders']
+];
+
+interface SavedAudioInfo {
+	// Note the audio was read from
+	notePath: string;
+	savedAt: number;
+	voices?: string;
+	// Seconds
+	duration?: number;
+}
+
+interface SavedAudioFile {
+	file: TFile;
+	// Note path. Files saved before the index existed were saved next to their
+	// note, so it is worked out from the file name
+	note: string;
+	savedAt: number;
+	info?: SavedAudioInfo;
+}
+
+/**
+ * Tracks the audio files saved to the vault and which notes they were read
+ * from, decides where new files go and removes old ones by the retention
+ * settings.
+ */
+class AudioLibrary {
+	private plugin: GeminiTTSPlugin;
+
+	constructor(plugin: GeminiTTSPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Folder that audio read from a note is saved to, '' for the vault root.
+	 */
+	getFolder(note: TFile | null): string {
+		const { audioStorage } = this.plugin.settings;
+		const outputFolder = this.plugin.settings.audioOutputFolder.trim();
+		// An empty path is the vault root
+		const folder = !note || !note.parent || audioStorage === 'central'
+			? outputFolder
+			: audioStorage === 'mirrored'
+				? `${outputFolder}/${note.parent.path}`
+				: note.parent.path;
+		const normalized = normalizePath(folder);
+		return normalized === '/' ? '' : normalized;
+	}
+
+	async record(path: string, info: Omit<SavedAudioInfo, 'savedAt'>) {
+		this.plugin.settings.savedAudio[path] = { ...info, savedAt: Date.now() };
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Every audio file saved by the plugin that is still in the vault: the ones
+	 * it recorded, and ones in the output folder saved before it kept records.
+	 */
+	getFiles(): SavedAudioFile[] {
+		const { savedAudio } = this.plugin.settings;
+		// Copies in the podcast export folder are not library entries
+		const exportFolder = `${this.plugin.podcastExporter.folder}/`;
+		const outputFolder = this.getFolder(null);
+		const isUnrecordedSave = (file: TFile) => /^(wav|ogg)$/.test(file.extension)
+			&& SAVED_AUDIO_NAME.test(file.basename)
+			&& (outputFolder ? file.path.startsWith(`${outputFolder}/`) : file.parent?.path === '/');
+		return this.plugin.app.vault.getFiles()
+			.filter(file => !file.path.startsWith(exportFolder))
+			.filter(file => savedAudio[file.path] || isUnrecordedSave(file))
+			.map(file => {
+				const info = savedAudio[file.path];
+				return {
+					file,
+					note: info ? info.notePath : normalizePath(`${file.parent?.path}/${file.basename.replace(SAVED_AUDIO_NAME, '')}.md`),
+					savedAt: info ? info.savedAt : file.stat.ctime,
+					info
+				};
+			});
+	}
+
+	async renamePath(oldPath: string, newPath: string) {
+		const { savedAudio } = this.plugin.settings;
+		let changed = false;
+		if (savedAudio[oldPath]) {
+			savedAudio[newPath] = savedAudio[oldPath];
+			delete savedAudio[oldPath];
+			changed = true;
+		}
+		for (const info of Object.values(savedAudio)) {
+			if (info.notePath === oldPath) {
+				info.notePath = newPath;
+				changed = true;
+			}
+		}
+		if (changed) await this.plugin.saveSettings();
+	}
+
+	async removePath(path: string) {
+		if (!this.plugin.settings.savedAudio[path]) return;
+		delete this.plugin.settings.savedAudio[path];
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Moves saved audio past the retention limits to the trash: files older
+	 * than the age limit, all but the newest files of each note, and the
+	 * oldest files once the total is over the size limit. Returns how many
+	 * files were removed.
+	 */
+	async applyRetention(): Promise<number> {
+		const { retentionPerNote, retentionDays, retentionMaxSizeMB } = this.plugin.settings;
+		const files = this.getFiles().sort((a, b) => b.savedAt - a.savedAt);
+		const expired = new Set<SavedAudioFile>();
+
+		if (retentionDays > 0) {
+			const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+			files.filter(entry => entry.savedAt < cutoff).forEach(entry => expired.add(entry));
+		}
+
+		if (retentionPerNote > 0) {
+			const kept = new Map<string, number>();
+			for (const entry of files) {
+				const count = (kept.get(entry.note) || 0) + 1;
+				kept.set(entry.note, count);
+				if (count > retentionPerNote) expired.add(entry);
+			}
+		}
+
+		if (retentionMaxSizeMB > 0) {
+			let total = 0;
+			for (const entry of files) {
+				if (expired.has(entry)) continue;
+				total += entry.file.stat.size;
+				if (total > retentionMaxSizeMB * 1024 * 1024) expired.add(entry);
+			}
+		}
+
+		for (const entry of expired) {
+			console.log('[Gemini TTS] Removing saved audio:', entry.file.path);
+			await this.plugin.app.fileManager.trashFile(entry.file);
+		}
+		return expired.size;
+	}
+}
+
+/**
+ * Reads the length in seconds of a WAV or Ogg Opus file from its headers.
+ * Returns null when the file is not one of those.
+ */
+function getAudioDuration(data: ArrayBuffer): number | null {
+	const view = new DataView(data);
+	const bytes = new Uint8Array(data);
+	const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+	if (data.byteLength >= 12 && tag(0) === 'RIFF' && tag(8) === 'WAVE') {
+		let byteRate = 0;
+		for (let offset = 12; offset + 8 <= data.byteLength; offset += 8 + view.getUint32(offset + 4, true) + (view.getUint32(offset + 4, true) % 2)) {
+			if (tag(offset) === 'fmt ') {
+				byteRate = view.getUint32(offset + 16, true);
+			} else if (tag(offset) === 'data' && byteRate > 0) {
+				return view.getUint32(offset + 4, true) / byteRate;
+			}
+		}
+		return null;
+	}
+
+	if (data.byteLength >= 27 && tag(0) === 'OggS') {
+		// The last page's granule position counts 48 kHz samples, including the pre-skip
+		for (let offset = data.byteLength - 27; offset >= 0; offset--) {
+			if (bytes[offset] === 0x4f && tag(offset) === 'OggS') {
+				const granule = view.getUint32(offset + 6, true) + view.getUint32(offset + 10, true) * 0x100000000;
+				const preSkip = data.byteLength >= 38 ? view.getUint16(38, true) : 0;
+				return Math.max(0, granule - preSkip) / OPUS_SAMPLE_RATE;
+			}
+		}
+	}
+	return null;
+}
+
+function escapeXml(text: string): string {
+	return text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&apos;', '"': '&quot;' }[char] || char));
+}
+
+// Characters of the note's text used as an episode description
+const PODCAST_EXCERPT_LENGTH = 400;
+
+/**
+ * Exports saved audio as a podcast: the newest audio of each note is copied
+ * to the export folder next to a feed.xml that podcast apps can subscribe to
+ * once the folder is served at the feed URL.
+ */
+class PodcastExporter {
+	private plugin: GeminiTTSPlugin;
+
+	constructor(plugin: GeminiTTSPlugin) {
+		this.plugin = plugin;
+	}
+
+	get folder(): string {
+		return normalizePath(this.plugin.settings.podcastFolder || 'TTS Podcast');
+	}
+
+	/**
+	 * Exports the audio of the given notes, or of every note in the library.
+	 */
+	async export(notes?: TFile[]) {
+		const { app, settings } = this.plugin;
+		const baseUrl = settings.podcastBaseUrl.trim().replace(/\/+$/, '');
+		if (!baseUrl) {
+			new Notice('Set the podcast feed URL in the settings first');
 			return;
 		}
 
-		const noteContent = activeView.editor.getValue();
-		if (!noteContent || noteContent.trim().length === 0) {
-			new Notice('Note is empty');
+		// Newest saved audio of each note
+		const wanted = notes ? new Set(notes.map(note => note.path)) : null;
+		const latest = new Map<string, SavedAudioFile>();
+		for (const entry of this.plugin.library.getFiles()) {
+			if (wanted && !wanted.has(entry.note)) continue;
+			const current = latest.get(entry.note);
+			if (!current || entry.savedAt > current.savedAt) {
+				latest.set(entry.note, entry);
+			}
+		}
+
+		const episodes = [...latest.values()].sort((a, b) => b.savedAt - a.savedAt);
+		if (episodes.length === 0) {
+			new Notice(notes ? 'None of these notes have saved audio' : 'The audio library is empty');
 			return;
 		}
 
-		const cleanedText = this.cleanText(noteContent);
-		if (!cleanedText || cleanedText.trim().length === 0) {
-			new Notice('No readable text found in note');
-			return;
-		}
+		const notice = new Notice(`Exporting ${episodes.length} episode(s)...`, 0);
+		try {
+			if (!await app.vault.adapter.exists(this.folder)) {
+				await app.vault.createFolder(this.folder);
+			}
+
+			const items: string[] = [];
+			for (const episode of episodes) {
+				items.push(await this.exportEpisode(episode, baseUrl));
+			}
+
+			const feedPath = `${this.folder}/feed.xml`;
+			await app.vault.adapter.write(feedPath, this.buildFeed(items, baseUrl));
+			console.log('[Gemini TTS] Podcast feed exported:', { feedPath, episodes: episodes.length });
+
+			const skipped = notes ? notes.length - episodes.length : 0;
+			new Notice(`Podcast feed exported to ${feedPath} with ${episodes.length} episode(s)` +
+				(skipped > 0 ? `. ${skipped} note(s) without saved audio were skipped` : ''));
+		} catch (error) {
+			new Notice(`Failed to export podcast feed: ${error.message}`);
+			console.error('[Gemini TTS] Podcast export error:', error);
+		} finally {
+			notice.hide();
+		}
+	}
+
+	/**
+	 * Copies one episode's audio to the export folder and returns its feed item.
+	 */
+	private async exportEpisode(episode: SavedAudioFile, baseUrl: string): Promise<string> {
+		const { app } = this.plugin;
+		const { file, info } = episode;
+		const data = await app.vault.readBinary(file);
+		const exportPath = `${this.folder}/${file.name}`;
+		if (!await app.vault.adapter.exists(exportPath)) {
+			await app.vault.adapter.writeBinary(exportPath, data);
+		}
+
+		const note = app.vault.getAbstractFileByPath(episode.note);
+		const title = note instanceof TFile ? note.basename : file.basename.replace(SAVED_AUDIO_NAME, '');
+		let description = '';
+		if (note instanceof TFile) {
+			const text = this.plugin.cleanMarkdown(await app.vault.cachedRead(note)).text.replace(/\s+/g, ' ').trim();
+			// Cut at the last word break, or mid-word when there is none (long URLs, CJK text)
+			const space = text.lastIndexOf(' ', PODCAST_EXCERPT_LENGTH);
+			description = text.length > PODCAST_EXCERPT_LENGTH
+				? `${text.slice(0, space > 0 ? space : PODCAST_EXCERPT_LENGTH)}…`
+				: text;
+		}
+		const duration = info?.duration ?? getAudioDuration(data);
+
+		return [
+			'\t\t<item>',
+			`\t\t\t<title>${escapeXml(title)}</title>`,
+			`\t\t\t<description>${escapeXml(description)}</description>`,
+			`\t\t\t<enclosure url="${escapeXml(`${baseUrl}/${encodeURIComponent(file.name)}`)}" length="${data.byteLength}" type="${file.extension === 'ogg' ? 'audio/ogg' : 'audio/wav'}"/>`,
+			`\t\t\t<guid isPermaLink="false">${escapeXml(file.name)}</guid>`,
+			`\t\t\t<pubDate>${new Date(episode.savedAt).toUTCString()}</pubDate>`,
+			duration !== null ? `\t\t\t<itunes:duration>${Math.round(duration)}</itunes:duration>` : '',
+			info?.voices ? `\t\t\t<itunes:author>${escapeXml(info.voices)}</itunes:author>` : '',
+			'\t\t</item>'
+		].filter(Boolean).join('\n');
+	}
+
+	private buildFeed(items: string[], baseUrl: string): string {
+		const title = this.plugin.settings.podcastTitle.trim() || this.plugin.app.vault.getName();
+		return [
+			'<?xml version="1.0" encoding="UTF-8"?>',
+			'<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">',
+			'\t<channel>',
+			`\t\t<title>${escapeXml(title)}</title>`,
+			`\t\t<link>${escapeXml(baseUrl)}</link>`,
+			`\t\t<description>${escapeXml(`Notes from ${this.plugin.app.vault.getName()}, read aloud`)}</description>`,
+			`\t\t<lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+			'\t\t<itunes:explicit>false</itunes:explicit>',
+			...items,
+			'\t</channel>',
+			'</rss>',
+			''
+		].join('\n');
+	}
+}
+
+interface UsageEntry {
+	requests: number;
+	characters: number;
+	audioSeconds: number;
+	// Estimated USD, 0 for models without a known price
+	cost: number;
+}
+
+// Speech usage by day (YYYY-MM-DD), or by month (YYYY-MM) once the month is
+// over, then by provider and model
+type UsageLedger = Record<string, Record<string, UsageEntry>>;
+
+type BudgetPeriod = 'day' | 'month';
+
+// Date keys in local time, so a day's usage matches the user's day
+function usageDayKey(date: Date = new Date()): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function addUsage(total: UsageEntry | undefined, entry: UsageEntry): UsageEntry {
+	return {
+		requests: (total?.requests || 0) + entry.requests,
+		characters: (total?.characters || 0) + entry.characters,
+		audioSeconds: (total?.audioSeconds || 0) + entry.audioSeconds,
+		cost: (total?.cost || 0) + entry.cost
+	};
+}
+
+/**
+ * Keeps a per-day, per-model ledger of speech requests in the plugin folder,
+ * with their estimated cost, and enforces the spending budget before new
+ * audio is requested. Days of past months are rolled up into month totals.
+ */
+class UsageMeter {
+	private plugin: GeminiTTSPlugin;
+	private ledger: UsageLedger = {};
+	// Period the user already agreed to keep spending past the confirmation threshold
+	private confirmedPeriod: string | null = null;
+	private pendingConfirmation: Promise<boolean> | null = null;
+	// Every request adds to the ledger, so its writes are batched
+	private saveLater = debounce(() => this.save(), 5000, true);
+
+	constructor(plugin: GeminiTTSPlugin) {
+		this.plugin = plugin;
+	}
+
+	private get path(): string {
+		const { manifest, app } = this.plugin;
+		return `${manifest.dir || `${app.vault.configDir}/plugins/${manifest.id}`}/usage.json`;
+	}
+
+	async load() {
+		const adapter = this.plugin.app.vault.adapter;
+		try {
+			if (await adapter.exists(this.path)) {
+				this.ledger = JSON.parse(await adapter.read(this.path)) || {};
+			}
+		} catch (error) {
+			console.error('[Gemini TTS] Could not read usage ledger:', error);
+		}
+
+		// Earlier versions kept the ledger in the synced plugin data
+		const settings = this.plugin.settings as GeminiTTSSettings & { usageLedger?: UsageLedger };
+		if (settings.usageLedger) {
+			for (const [day, models] of Object.entries(settings.usageLedger)) {
+				for (const [model, entry] of Object.entries(models)) {
+					this.ledger[day] = { ...this.ledger[day], [model]: addUsage(this.ledger[day]?.[model], entry) };
+				}
+			}
+			delete settings.usageLedger;
+			await this.save();
+			await this.plugin.saveSettings();
+		}
+	}
+
+	async record(provider: TTSProvider, modelName: string, characters: number, audioSeconds: number) {
+		const day = usageDayKey();
+		const model = `${provider.name}: ${modelName}`;
+		this.ledger[day] = {
+			...this.ledger[day],
+			[model]: addUsage(this.ledger[day]?.[model], {
+				requests: 1,
+				characters,
+				audioSeconds,
+				cost: estimateSpeechCost(provider, modelName, characters, audioSeconds) || 0
+			})
+		};
+		this.saveLater();
+	}
+
+	periodKey(period: BudgetPeriod): string {
+		const day = usageDayKey();
+		return period === 'day' ? day : day.slice(0, 7);
+	}
+
+	/**
+	 * Usage per model in a period, given as a day (YYYY-MM-DD) or month (YYYY-MM).
+	 */
+	totals(periodKey: string): Record<string, UsageEntry> {
+		const totals: Record<string, UsageEntry> = {};
+		for (const [day, models] of Object.entries(this.ledger)) {
+			if (!day.startsWith(periodKey)) continue;
+			for (const [model, entry] of Object.entries(models)) {
+				totals[model] = addUsage(totals[model], entry);
+			}
+		}
+		return totals;
+	}
+
+	spent(period: BudgetPeriod = this.plugin.settings.budgetPeriod): number {
+		return Object.values(this.totals(this.periodKey(period))).reduce((total, entry) => total + entry.cost, 0);
+	}
+
+	/**
+	 * Throws when a request would go past the spending cap, and asks once per
+	 * period before going past the confirmation threshold. Declining cancels
+	 * the request.
+	 */
+	async checkBudget(estimate: number) {
+		const { budgetPeriod, budgetConfirmAbove, budgetCap } = this.plugin.settings;
+		const spent = this.spent();
+		const periodName = budgetPeriod === 'day' ? 'today' : 'this month';
+
+		if (budgetCap > 0 && spent + estimate > budgetCap) {
+			throw new BudgetExceededError(`Spending cap of $${budgetCap.toFixed(2)} ${periodName} reached ($${spent.toFixed(2)} spent)`);
+		}
+
+		const period = this.periodKey(budgetPeriod);
+		if (budgetConfirmAbove > 0 && spent + estimate > budgetConfirmAbove && this.confirmedPeriod !== period) {
+			// Requests made while the question is open wait for the same answer
+			this.pendingConfirmation = this.pendingConfirmation || new Promise<boolean>(resolve => {
+				new BudgetConfirmModal(
+					this.plugin.app,
+					`This request would take spending on speech ${periodName} to about $${(spent + estimate).toFixed(2)}, over the $${budgetConfirmAbove.toFixed(2)} you set for confirmation. Keep generating audio?`,
+					resolve
+				).open();
+			});
+			const confirmed = await this.pendingConfirmation;
+			this.pendingConfirmation = null;
+			if (!confirmed) {
+				throw new RequestCancelledError();
+			}
+			this.confirmedPeriod = period;
+		}
+	}
+
+	async reset() {
+		this.ledger = {};
+		this.confirmedPeriod = null;
+		await this.save();
+	}
+
+	/**
+	 * Writes out usage that is waiting to be saved.
+	 */
+	flush() {
+		this.saveLater.run();
+	}
+
+	private async save() {
+		this.saveLater.cancel();
+		this.rollUp();
+		await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(this.ledger));
+	}
+
+	/**
+	 * Folds the days of past months into one entry per month, so the ledger
+	 * stays small while monthly totals remain available.
+	 */
+	private rollUp() {
+		const month = usageDayKey().slice(0, 7);
+		for (const [day, models] of Object.entries(this.ledger)) {
+			if (day.length === 7 || day.startsWith(month)) continue;
+			const key = day.slice(0, 7);
+			for (const [model, entry] of Object.entries(models)) {
+				this.ledger[key] = { ...this.ledger[key], [model]: addUsage(this.ledger[key]?.[model], entry) };
+			}
+			delete this.ledger[day];
+		}
+	}
+}
+
+// How many notes after the current one the queue generates ahead of time
+const QUEUE_LOOKAHEAD = 2;
+
+// Playback speeds offered in the player, from half to three times as fast
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+// Sleep timer choices in minutes; 0 stops at the end of the current note
+const SLEEP_TIMER_OPTIONS: [number, string][] = [
+	[5, '5 minutes'],
+	[10, '10 minutes'],
+	[15, '15 minutes'],
+	[30, '30 minutes'],
+	[45, '45 minutes'],
+	[60, '1 hour'],
+	[0, 'End of current note']
+];
+
+// Playback positions are saved this often while playing, and on pause and stop
+const POSITION_SAVE_INTERVAL = 10000;
+// Positions closer to the start than this are not offered for resume
+const MIN_RESUME_SECONDS = 5;
+
+interface QueueItem {
+	id: number;
+	path: string;
+	status: 'pending' | 'generating' | 'ready' | 'error';
+}
+
+/**
+ * Notes waiting to be read, played one after another. While the queue is
+ * active, upcoming notes are generated in the background into the audio
+ * cache, so each one starts playing right away when its turn comes.
+ */
+class PlaybackQueue {
+	items: QueueItem[] = [];
+	currentId: number | null = null;
+	private plugin: GeminiTTSPlugin;
+	private nextId = 1;
+	private generating: QueueItem | null = null;
+	private generationController: AbortController | null = null;
+
+	constructor(plugin: GeminiTTSPlugin) {
+		this.plugin = plugin;
+		this.items = plugin.settings.playbackQueue.map(path => this.createItem(path));
+	}
+
+	/**
+	 * Whether the queue started the reading that is playing now.
+	 */
+	get isActive(): boolean {
+		return this.plugin.onPlaybackEnded === this.handleEnded;
+	}
+
+	async add(files: TFile[]) {
+		const queued = new Set(this.items.map(item => item.path));
+		const added = files.filter(file => file.extension === 'md' && !queued.has(file.path));
+		if (added.length === 0) {
+			new Notice(files.length > 0 ? 'Already in the queue' : 'No notes to add');
+			return;
+		}
+
+		this.items.push(...added.map(file => this.createItem(file.path)));
+		new Notice(added.length === 1 ? `Added ${added[0].basename} to the queue` : `Added ${added.length} notes to the queue`);
+		await this.save();
+		this.generateAhead();
+	}
+
+	async remove(id: number) {
+		const item = this.items.find(item => item.id === id);
+		if (!item) return;
+
+		if (this.generating === item) {
+			this.generationController?.abort();
+		}
+		if (this.currentId === id) {
+			this.currentId = null;
+		}
+		this.items = this.items.filter(other => other !== item);
+		await this.save();
+	}
+
+	/**
+	 * Moves an item up (offset -1) or down (offset 1) the queue.
+	 */
+	async move(id: number, offset: number) {
+		const index = this.items.findIndex(item => item.id === id);
+		const target = index + offset;
+		if (index === -1 || target < 0 || target >= this.items.length) return;
+
+		const [item] = this.items.splice(index, 1);
+		this.items.splice(target, 0, item);
+		await this.save();
+	}
+
+	async clear() {
+		this.generationController?.abort();
+		if (this.isActive) {
+			this.plugin.stopPlayback();
+		}
+		this.items = [];
+		this.currentId = null;
+		await this.save();
+	}
+
+	/**
+	 * Plays the item with the given id, or the first item, and continues
+	 * with the ones after it.
+	 */
+	async play(id?: number) {
+		const item = id !== undefined ? this.items.find(item => item.id === id) : this.items[0];
+		if (!item) {
+			new Notice('The queue is empty');
+			return;
+		}
+
+		const file = this.plugin.app.vault.getAbstractFileByPath(item.path);
+		if (!(file instanceof TFile)) {
+			new Notice(`Note not found: ${item.path}`);
+			await this.remove(item.id);
+			return;
+		}
+
+		// Let the reading generate this note itself, reusing what is already cached
+		if (this.generating === item) {
+			this.generationController?.abort();
+		}
+
+		this.plugin.stopPlayback();
+		this.currentId = item.id;
+		this.plugin.onPlaybackEnded = this.handleEnded;
+		this.plugin.sidebarView?.renderQueue();
+		this.generateAhead();
+		// Pick up where the note was left without asking, so the queue keeps flowing
+		await this.plugin.readFile(file, true);
+	}
+
+	async playNext() {
+		const index = this.items.findIndex(item => item.id === this.currentId);
+		const next = this.items[index + 1];
+		if (!next) {
+			this.currentId = null;
+			this.plugin.sidebarView?.renderQueue();
+			new Notice('Reached the end of the queue');
+			return;
+		}
+		await this.play(next.id);
+	}
+
+	async renamePath(oldPath: string, newPath: string) {
+		const item = this.items.find(item => item.path === oldPath);
+		if (!item) return;
+		item.path = newPath;
+		await this.save();
+	}
+
+	async removePath(path: string) {
+		const item = this.items.find(item => item.path === path);
+		if (item) {
+			await this.remove(item.id);
+		}
+	}
+
+	/**
+	 * Generates the audio of the next few items into the cache, one note at a
+	 * time. Does nothing when the cache is off, as the audio would be thrown away.
+	 */
+	async generateAhead() {
+		if (this.generating || !this.plugin.settings.cacheEnabled) return;
+
+		const current = this.items.findIndex(item => item.id === this.currentId);
+		const upcoming = this.items.slice(current + 1, current + 1 + QUEUE_LOOKAHEAD);
+		const item = upcoming.find(item => item.status === 'pending');
+		if (!item) return;
+
+		const file = this.plugin.app.vault.getAbstractFileByPath(item.path);
+		if (!(file instanceof TFile)) {
+			item.status = 'error';
+			this.generateAhead();
+			return;
+		}
+
+		const controller = new AbortController();
+		this.generating = item;
+		this.generationController = controller;
+		item.status = 'generating';
+		this.plugin.sidebarView?.renderQueue();
+
+		try {
+			await this.plugin.cacheNoteAudio(file, controller.signal);
+			item.status = 'ready';
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				item.status = 'pending';
+			} else {
+				console.error('[Gemini TTS] Could not generate queued note:', item.path, error);
+				item.status = 'error';
+			}
+		} finally {
+			this.generating = null;
+			this.generationController = null;
+		}
+
+		this.plugin.sidebarView?.renderQueue();
+		this.generateAhead();
+	}
+
+	private handleEnded = () => {
+		this.playNext();
+	};
+
+	private createItem(path: string): QueueItem {
+		return { id: this.nextId++, path, status: 'pending' };
+	}
+
+	private async save() {
+		this.plugin.settings.playbackQueue = this.items.map(item => item.path);
+		await this.plugin.saveSettings();
+		this.plugin.sidebarView?.renderQueue();
+	}
+}
+
+// Media session actions the plugin handles
+const MEDIA_SESSION_ACTIONS: MediaSessionAction[] = ['play', 'pause', 'stop', 'seekbackward', 'seekforward', 'seekto', 'previoustrack', 'nexttrack'];
+
+/**
+ * Connects playback to the Media Session API, so media keys, headset buttons
+ * and the lock screen show and control what is being read.
+ */
+class MediaSessionController {
+	private plugin: GeminiTTSPlugin;
+	private audio: HTMLAudioElement | ChunkedAudioPlayer | null = null;
+	// Silent looping element; Web Audio playback alone does not claim the OS media controls
+	private keepAlive: HTMLAudioElement | null = null;
+
+	constructor(plugin: GeminiTTSPlugin) {
+		this.plugin = plugin;
+	}
+
+	private get session(): MediaSession | null {
+		return 'mediaSession' in navigator ? navigator.mediaSession : null;
+	}
+
+	/**
+	 * Shows audio in the OS media controls under title, and routes the
+	 * controls' actions to the plugin.
+	 */
+	attach(audio: HTMLAudioElement | ChunkedAudioPlayer, title: string) {
+		const session = this.session;
+		if (!session) return;
+
+		this.audio = audio;
+		const provider = this.plugin.getProvider();
+		session.metadata = new MediaMetadata({
+			title,
+			artist: this.plugin.app.vault.getName(),
+			album: `${provider.name} · ${this.plugin.resolveVoiceName(provider.getDefaultVoice())}`
+		});
+
+		const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+			['play', () => {
+				if (this.plugin.isPaused) this.plugin.togglePauseResume();
+			}],
+			['pause', () => {
+				if (this.plugin.isPlaying) this.plugin.togglePauseResume();
+			}],
+			['stop', () => this.plugin.stopPlayback()],
+			['seekbackward', details => this.plugin.skip(-(details.seekOffset || 10))],
+			['seekforward', details => this.plugin.skip(details.seekOffset || 10)],
+			['seekto', details => {
+				if (this.plugin.currentAudio && typeof details.seekTime === 'number') {
+					this.plugin.currentAudio.currentTime = details.seekTime;
+				}
+			}],
+			['previoustrack', () => this.plugin.jumpParagraph(-1)],
+			['nexttrack', () => {
+				// Next note while the queue plays, otherwise the next paragraph
+				if (this.plugin.queue.isActive) {
+					this.plugin.queue.playNext();
+				} else {
+					this.plugin.jumpParagraph(1);
+				}
+			}]
+		];
+		for (const [action, handler] of handlers) {
+			try {
+				session.setActionHandler(action, handler);
+			} catch (error) {
+				// Not every platform supports every action
+			}
+		}
+
+		const update = () => this.update(audio);
+		for (const type of ['play', 'pause', 'ended', 'timeupdate', 'durationchange', 'ratechange']) {
+			audio.addEventListener(type, update);
+		}
+		update();
+	}
+
+	/**
+	 * Releases the OS media controls, so they no longer call into the plugin.
+	 */
+	detach() {
+		const session = this.session;
+		this.audio = null;
+		if (this.keepAlive) {
+			this.keepAlive.pause();
+			URL.revokeObjectURL(this.keepAlive.src);
+			this.keepAlive = null;
+		}
+		if (!session) return;
+
+		session.metadata = null;
+		session.playbackState = 'none';
+		for (const action of MEDIA_SESSION_ACTIONS) {
+			try {
+				session.setActionHandler(action, null);
+			} catch (error) {
+				// Not every platform supports every action
+			}
+		}
+	}
+
+	private update(audio: HTMLAudioElement | ChunkedAudioPlayer) {
+		const session = this.session;
+		if (!session || this.audio !== audio) return;
+
+		session.playbackState = audio.paused ? 'paused' : 'playing';
+		if (audio instanceof ChunkedAudioPlayer) {
+			if (audio.paused) {
+				this.keepAlive?.pause();
+			} else {
+				this.playKeepAlive();
+			}
+		}
+
+		const duration = audio.duration;
+		if (!isFinite(duration) || duration <= 0) return;
+		try {
+			session.setPositionState({
+				duration,
+				playbackRate: audio.playbackRate,
+				position: Math.min(audio.currentTime, duration)
+			});
+		} catch (error) {
+			// Rejected while the duration is still changing
+		}
+	}
+
+	private playKeepAlive() {
+		if (!this.keepAlive) {
+			const sampleRate = 8000;
+			const wav = this.plugin.pcmToWav(new ArrayBuffer(sampleRate * 2), sampleRate);
+			this.keepAlive = new Audio(URL.createObjectURL(new Blob([wav], { type: 'audio/wav' })));
+			this.keepAlive.loop = true;
+		}
+		if (this.keepAlive.paused) {
+			this.keepAlive.play().catch(error => console.warn('[Gemini TTS] Could not start media session audio:', error));
+		}
+	}
+}
+
+interface ReadingHighlightState {
+	ranges: { from: number; to: number }[];
+	active: number | null;
+}
+
+const setReadingRanges = StateEffect.define<{ from: number; to: number }[]>();
+const setActiveReadingRange = StateEffect.define<number | null>();
+const clearReadingHighlight = StateEffect.define<null>();
+
+const readingHighlightMark = Decoration.mark({ class: 'gemini-tts-reading-highlight' });
+
+/**
+ * Holds the note ranges of the sentences being read and highlights the active
+ * one. Ranges are mapped through edits so they stay on the right text.
+ */
+const readingHighlightField = StateField.define<ReadingHighlightState>({
+	create: () => ({ ranges: [], active: null }),
+	update(state, tr) {
+		let { ranges, active } = state;
+		if (tr.docChanged && ranges.length > 0) {
+			ranges = ranges.map(range => ({
+				from: tr.changes.mapPos(range.from, 1),
+				to: tr.changes.mapPos(range.to, -1)
+			}));
+		}
+		for (const effect of tr.effects) {
+			if (effect.is(setReadingRanges)) {
+				ranges = effect.value;
+				active = null;
+			} else if (effect.is(setActiveReadingRange)) {
+				active = effect.value;
+			} else if (effect.is(clearReadingHighlight)) {
+				ranges = [];
+				active = null;
+			}
+		}
+		return ranges === state.ranges && active === state.active ? state : { ranges, active };
+	},
+	provide: field => EditorView.decorations.compute([field], state => {
+		const { ranges, active } = state.field(field);
+		const range = active !== null ? ranges[active] : null;
+		if (!range) {
+			return Decoration.none;
+		}
+		const to = Math.min(range.to, state.doc.length);
+		if (to <= range.from) {
+			return Decoration.none;
+		}
+		return Decoration.set([readingHighlightMark.range(range.from, to)]);
+	})
+});
+
+/**
+ * Estimates which character of the spoken text is being read at a point in
+ * time, assuming an even pace within each chunk.
+ */
+function textPositionAtTime(chunks: SpeechChunk[], player: ChunkedAudioPlayer, time: number): number | null {
+	const timings = player.getChunkTimings();
+	if (timings.length === 0) return null;
+
+	let chunkIndex = timings.findIndex(timing => time < timing.offset + timing.duration);
+	if (chunkIndex === -1) chunkIndex = timings.length - 1;
+
+	const timing = timings[chunkIndex];
+	const chunk = chunks[chunkIndex];
+	const fraction = timing.duration > 0 ? Math.min(1, Math.max(0, (time - timing.offset) / timing.duration)) : 0;
+	return Math.floor(chunk.start + fraction * (chunk.end - chunk.start));
+}
+
+/**
+ * Returns when a character of the spoken text is read, or null when its chunk
+ * has not been generated yet.
+ */
+function textTimeAt(chunks: SpeechChunk[], player: ChunkedAudioPlayer, position: number): number | null {
+	const chunkIndex = chunks.findIndex(chunk => position < chunk.end);
+	const timings = player.getChunkTimings();
+	if (chunkIndex === -1 || chunkIndex >= timings.length) return null;
+
+	const chunk = chunks[chunkIndex];
+	const fraction = Math.max(0, (position - chunk.start) / Math.max(1, chunk.end - chunk.start));
+	return timings[chunkIndex].offset + fraction * timings[chunkIndex].duration;
+}
+
+/**
+ * Formats seconds as m:ss, or h:mm:ss from an hour up.
+ */
+function formatTime(seconds: number): string {
+	const total = Math.max(0, Math.floor(seconds));
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = (total % 60).toString().padStart(2, '0');
+	return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Highlights the sentence being read in the editor and keeps it scrolled into
+ * view. Timing within a chunk is estimated from the chunk's duration and
+ * character count.
+ */
+class ReadingHighlighter {
+	private activeIndex: number | null = null;
+
+	constructor(
+		readonly editorView: EditorView,
+		private segments: ReadingSegment[],
+		private chunks: SpeechChunk[],
+		private player: ChunkedAudioPlayer
+	) {}
+
+	start() {
+		this.editorView.dispatch({
+			effects: setReadingRanges.of(this.segments.map(segment => ({ from: segment.from, to: segment.to })))
+		});
+		this.player.addEventListener('timeupdate', this.onTimeUpdate);
+	}
+
+	stop() {
+		this.player.removeEventListener('timeupdate', this.onTimeUpdate);
+		// The note may have been closed in the meantime
+		if (this.editorView.dom.isConnected) {
+			this.editorView.dispatch({ effects: clearReadingHighlight.of(null) });
+		}
+	}
+
+	/**
+	 * Seeks playback to the start of the paragraph at a position in the note.
+	 * Returns false when the position is not part of the text being read.
+	 */
+	seekToParagraphAt(position: number): boolean {
+		const { ranges } = this.editorView.state.field(readingHighlightField);
+		let index = ranges.findIndex(range => position >= range.from && position <= range.to);
+		if (index === -1) return false;
+
+		while (index > 0 && this.segments[index - 1].paragraph === this.segments[index].paragraph) {
+			index--;
+		}
+
+		const time = textTimeAt(this.chunks, this.player, this.segments[index].start);
+		if (time === null) {
+			new Notice('That part has not been generated yet');
+			return true;
+		}
+
+		this.player.currentTime = time;
+		this.update();
+		return true;
+	}
+
+	private onTimeUpdate = () => this.update();
+
+	private update() {
+		const index = this.segmentAtTime(this.player.currentTime);
+		if (index === this.activeIndex || !this.editorView.dom.isConnected) return;
+		this.activeIndex = index;
+
+		const effects: StateEffect<unknown>[] = [setActiveReadingRange.of(index)];
+		const range = index !== null ? this.editorView.state.field(readingHighlightField).ranges[index] : null;
+		if (range) {
+			effects.push(EditorView.scrollIntoView(range.from, { y: 'center' }));
+		}
+		this.editorView.dispatch({ effects });
+	}
+
+	private segmentAtTime(time: number): number | null {
+		const position = textPositionAtTime(this.chunks, this.player, time);
+		if (position === null) return null;
+
+		const index = this.segments.findIndex(segment => position < segment.end);
+		return index === -1 ? this.segments.length - 1 : index;
+	}
+}
+
+class GeminiTTSSidebarView extends ItemView {
+	plugin: GeminiTTSPlugin;
+	audioList: AudioFile[] = [];
+	// Library search text and filter
+	libraryQuery = '';
+	libraryScope: 'all' | 'note' = 'all';
+	// Paths of the library entries ticked for deletion
+	selectedAudio = new Set<string>();
+	// Reloads the library after vault changes, at most once every half second
+	requestLibraryRefresh = debounce(() => this.refreshAudioList(), 500, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: GeminiTTSPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return SIDEBAR_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return 'Gemini TTS';
+	}
+
+	getIcon() {
+		return 'mic';
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		
+		const contentDiv = container.createDiv({ cls: 'gemini-tts-sidebar-content' });
+		
+		// Title
+		contentDiv.createEl('h3', { text: '🎙️ TTS Player', cls: 'gemini-tts-sidebar-title' });
+		
+		// Player container (will be populated when audio is generated)
+		const playerContainer = contentDiv.createDiv({ cls: 'gemini-tts-sidebar-player', attr: { id: 'sidebar-player-container' } });
+		playerContainer.createDiv({ cls: 'gemini-tts-sidebar-empty', text: 'No audio playing' });
+		
+		// Playback queue section
+		const queueDiv = contentDiv.createDiv({ cls: 'gemini-tts-sidebar-queue' });
+		const queueHeader = queueDiv.createDiv({ cls: 'gemini-tts-queue-header' });
+		queueHeader.createEl('h4', { text: 'Queue', cls: 'gemini-tts-sidebar-history-title' });
+		
+		const addBtn = queueHeader.createEl('button', { cls: 'gemini-tts-audio-play-btn', text: '➕' });
+		addBtn.setAttribute('aria-label', 'Add active note to queue');
+		addBtn.onclick = () => {
+			const file = this.plugin.app.workspace.getActiveFile();
+			if (file) {
+				this.plugin.queue.add([file]);
+			} else {
+				new Notice('No active note found');
+			}
+		};
+		
+		const playQueueBtn = queueHeader.createEl('button', { cls: 'gemini-tts-audio-play-btn', text: '▶️' });
+		playQueueBtn.setAttribute('aria-label', 'Play queue');
+		playQueueBtn.onclick = () => this.plugin.queue.play();
+		
+		const clearQueueBtn = queueHeader.createEl('button', { cls: 'gemini-tts-audio-delete-btn', text: '🗑️' });
+		clearQueueBtn.setAttribute('aria-label', 'Clear queue');
+		clearQueueBtn.onclick = () => this.plugin.queue.clear();
+		
+		queueDiv.createDiv({ cls: 'gemini-tts-audio-list', attr: { id: 'queue-list' } });
+		this.renderQueue();
+		
+		// Continue listening section
+		const continueDiv = contentDiv.createDiv({ cls: 'gemini-tts-sidebar-queue' });
+		continueDiv.createEl('h4', { text: 'Continue Listening', cls: 'gemini-tts-sidebar-history-title' });
+		continueDiv.createDiv({ cls: 'gemini-tts-audio-list', attr: { id: 'continue-list' } });
+		this.renderContinueListening();
+		
+		// Audio library section, every audio file the plugin saved in the vault
+		const historyDiv = contentDiv.createDiv({ cls: 'gemini-tts-sidebar-history' });
+		const libraryHeader = historyDiv.createDiv({ cls: 'gemini-tts-queue-header' });
+		libraryHeader.createEl('h4', { text: 'Library', cls: 'gemini-tts-sidebar-history-title' });
+		
+		const deleteSelectedBtn = libraryHeader.createEl('button', { cls: 'gemini-tts-audio-delete-btn', text: '🗑️', attr: { id: 'library-delete-selected' } });
+		deleteSelectedBtn.setAttribute('aria-label', 'Delete selected audio');
+		deleteSelectedBtn.onclick = () => this.deleteSelectedAudio();
+		
+		const filterDiv = historyDiv.createDiv({ cls: 'gemini-tts-library-filters' });
+		const searchInput = filterDiv.createEl('input', { cls: 'gemini-tts-library-search', attr: { type: 'search', placeholder: 'Search note, file or voice' } });
+		searchInput.value = this.libraryQuery;
+		searchInput.addEventListener('input', () => {
+			this.libraryQuery = searchInput.value;
+			this.renderAudioList(audioListContainer);
+		});
+		
+		const scopeSelect = filterDiv.createEl('select', { cls: 'dropdown' });
+		scopeSelect.setAttribute('aria-label', 'Show audio from');
+		scopeSelect.createEl('option', { text: 'All notes', value: 'all' });
+		scopeSelect.createEl('option', { text: 'Current note', value: 'note' });
+		scopeSelect.value = this.libraryScope;
+		scopeSelect.onchange = () => {
+			this.libraryScope = scopeSelect.value as 'all' | 'note';
+			this.renderAudioList(audioListContainer);
+		};
+		
+		const audioListContainer = historyDiv.createDiv({ cls: 'gemini-tts-audio-list', attr: { id: 'audio-list' } });
+		
+		// Load existing audio files
+		await this.loadAudioFiles();
+		this.renderAudioList(audioListContainer);
+		
+		// Keep the library up to date as audio is saved, renamed and deleted
+		const onVaultChange = (file: TAbstractFile) => {
+			if (file instanceof TFile && /^(wav|ogg|md)$/.test(file.extension)) {
+				this.requestLibraryRefresh();
+			}
+		};
+		this.registerEvent(this.app.vault.on('create', onVaultChange));
+		this.registerEvent(this.app.vault.on('delete', onVaultChange));
+		this.registerEvent(this.app.vault.on('rename', onVaultChange));
+		this.registerEvent(this.app.workspace.on('file-open', () => {
+			if (this.libraryScope === 'note') {
+				this.renderAudioList(audioListContainer);
+			}
+		}));
+	}
+
+	async loadAudioFiles() {
+		this.audioList = this.plugin.library.getFiles()
+			.sort((a, b) => b.savedAt - a.savedAt)
+			.map(entry => ({
+				name: entry.file.name,
+				path: entry.file.path,
+				createdTime: entry.savedAt,
+				notePath: entry.note,
+				voices: entry.info?.voices,
+				duration: entry.info?.duration,
+				size: entry.file.stat.size
+			}));
+		
+		// Forget selections of files that are gone
+		const paths = new Set(this.audioList.map(audio => audio.path));
+		this.selectedAudio.forEach(path => {
+			if (!paths.has(path)) this.selectedAudio.delete(path);
+		});
+	}
+
+	/**
+	 * Library entries that match the search text and filter.
+	 */
+	getVisibleAudio(): AudioFile[] {
+		const activeFile = this.plugin.app.workspace.getActiveFile();
+		const query = this.libraryQuery.trim() ? prepareSimpleSearch(this.libraryQuery.trim()) : null;
+		return this.audioList.filter(audio => {
+			if (this.libraryScope === 'note' && audio.notePath !== activeFile?.path) return false;
+			return !query || query([audio.name, audio.notePath, audio.voices].filter(Boolean).join(' ')) !== null;
+		});
+	}
+
+	renderAudioList(container: HTMLElement) {
+		container.empty();
+		this.updateDeleteSelectedButton();
+		
+		if (this.audioList.length === 0) {
+			container.createDiv({ cls: 'gemini-tts-audio-list-empty', text: 'No audio files yet' });
+			return;
+		}
+		
+		const visibleAudio = this.getVisibleAudio();
+		if (visibleAudio.length === 0) {
+			container.createDiv({ cls: 'gemini-tts-audio-list-empty', text: 'No matching audio' });
+			return;
+		}
+
+		visibleAudio.forEach((audio) => {
+			const itemDiv = container.createDiv({ cls: 'gemini-tts-audio-item gemini-tts-library-item' });
+			
+			const checkbox = itemDiv.createEl('input', { attr: { type: 'checkbox' } });
+			checkbox.checked = this.selectedAudio.has(audio.path);
+			checkbox.setAttribute('aria-label', `Select ${audio.name}`);
+			checkbox.onchange = () => {
+				if (checkbox.checked) {
+					this.selectedAudio.add(audio.path);
+				} else {
+					this.selectedAudio.delete(audio.path);
+				}
+				this.updateDeleteSelectedButton();
+			};
+			
+			// Source note, then file details
+			const fileName = audio.name.split('/').pop() || 'unknown';
+			const infoDiv = itemDiv.createDiv({ cls: 'gemini-tts-library-info' });
+			const noteName = audio.notePath ? audio.notePath.split('/').pop()?.replace(/\.md$/, '') : '';
+			const nameEl = infoDiv.createEl('div', { cls: 'gemini-tts-audio-name', text: noteName || fileName });
+			nameEl.setAttribute('aria-label', audio.notePath ? `Open ${audio.notePath}\n${fileName}` : fileName);
+			nameEl.onclick = () => this.openSourceNote(audio);
+			
+			const details = [
+				audio.duration ? formatTime(audio.duration) : '',
+				audio.voices || '',
+				audio.size ? `${(audio.size / 1024 / 1024).toFixed(1)} MB` : '',
+				new Date(audio.createdTime).toLocaleDateString()
+			];
+			infoDiv.createEl('div', { cls: 'gemini-tts-audio-date', text: details.filter(Boolean).join(' · ') });
+			
+			// Play button
+			const playBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-play-btn', text: '▶️' });
+			playBtn.setAttribute('aria-label', `Play ${fileName}`);
+			playBtn.onclick = () => this.playAudio(audio);
+			
+			// Delete button
+			const deleteBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-delete-btn', text: '🗑️' });
+			deleteBtn.setAttribute('aria-label', `Delete ${fileName}`);
+			deleteBtn.onclick = () => this.deleteAudio(audio);
+		});
+	}
+
+	renderContinueListening() {
+		const container = this.containerEl.querySelector('#continue-list') as HTMLElement;
+		if (!container) return;
+
+		container.empty();
+		const entries = Object.entries(this.plugin.settings.playbackPositions)
+			.sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+			.slice(0, 10);
+		if (entries.length === 0) {
+			container.createDiv({ cls: 'gemini-tts-audio-list-empty', text: 'Nothing to continue' });
+			return;
+		}
+
+		for (const [path, saved] of entries) {
+			const fileName = path.split('/').pop() || path;
+			const name = fileName.replace(/\.md$/, '');
+			const itemDiv = container.createDiv({ cls: 'gemini-tts-audio-item' });
+			itemDiv.createEl('div', { cls: 'gemini-tts-audio-name', text: name });
+			itemDiv.createEl('div', { cls: 'gemini-tts-audio-date', text: formatTime(saved.position) });
+
+			const playBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-play-btn', text: '▶️' });
+			playBtn.setAttribute('aria-label', `Resume ${name} from ${formatTime(saved.position)}`);
+			playBtn.onclick = () => {
+				const file = this.plugin.app.vault.getAbstractFileByPath(path);
+				if (file instanceof TFile && file.extension === 'md') {
+					this.plugin.stopPlayback();
+					this.plugin.readFile(file, true);
+				} else {
+					this.playAudio({ name: fileName, path, createdTime: 0 }, true);
+				}
+			};
+
+			const forgetBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-delete-btn', text: '✕' });
+			forgetBtn.setAttribute('aria-label', `Forget position in ${name}`);
+			forgetBtn.onclick = () => this.plugin.forgetPlaybackPosition(path);
+		}
+	}
+
+	renderQueue() {
+		const container = this.containerEl.querySelector('#queue-list') as HTMLElement;
+		if (!container) return;
+
+		container.empty();
+		const { queue } = this.plugin;
+		if (queue.items.length === 0) {
+			container.createDiv({ cls: 'gemini-tts-audio-list-empty', text: 'Queue is empty' });
+			return;
+		}
+
+		const statusLabels: Record<QueueItem['status'], string> = {
+			pending: '',
+			generating: 'Generating...',
+			ready: 'Ready',
+			error: 'Failed'
+		};
+
+		queue.items.forEach((item, index) => {
+			const itemDiv = container.createDiv({ cls: 'gemini-tts-audio-item gemini-tts-queue-item' });
+			if (item.id === queue.currentId) {
+				itemDiv.addClass('is-current');
+			}
+
+			const name = item.path.split('/').pop()?.replace(/\.md$/, '') || item.path;
+			const nameEl = itemDiv.createEl('div', { cls: 'gemini-tts-audio-name', text: name });
+			nameEl.setAttribute('aria-label', `Play ${name}`);
+			nameEl.onclick = () => queue.play(item.id);
+			itemDiv.createEl('div', { cls: 'gemini-tts-audio-date', text: statusLabels[item.status] });
+
+			const upBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-play-btn', text: '↑' });
+			upBtn.setAttribute('aria-label', `Move ${name} up`);
+			upBtn.disabled = index === 0;
+			upBtn.onclick = () => queue.move(item.id, -1);
+
+			const downBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-play-btn', text: '↓' });
+			downBtn.setAttribute('aria-label', `Move ${name} down`);
+			downBtn.disabled = index === queue.items.length - 1;
+			downBtn.onclick = () => queue.move(item.id, 1);
+
+			const removeBtn = itemDiv.createEl('button', { cls: 'gemini-tts-audio-delete-btn', text: '✕' });
+			removeBtn.setAttribute('aria-label', `Remove ${name} from queue`);
+			removeBtn.onclick = () => queue.remove(item.id);
+		});
+	}
+
+	async playAudio(audio: AudioFile, resume?: boolean) {
+		const saved = this.plugin.getPlaybackPosition(audio.path);
+		if (saved && resume === undefined) {
+			new ResumeModal(this.app, audio.name, saved, choice => this.playAudio(audio, choice)).open();
+			return;
+		}
+
+		try {
+			const audioData = await this.plugin.app.vault.adapter.readBinary(audio.path);
+			
+			// Detect file extension and map to correct MIME type
+			const ext = audio.name.split('.').pop()?.toLowerCase();
+			let mimeType = 'audio/mpeg'; // default
+			if (ext === 'wav') mimeType = 'audio/wav';
+			else if (ext === 'ogg') mimeType = 'audio/ogg';
+			else if (ext === 'm4a') mimeType = 'audio/mp4';
+			else if (ext === 'mp3') mimeType = 'audio/mpeg';
+			
+			const audioBlob = new Blob([audioData], { type: mimeType });
+			const audioUrl = URL.createObjectURL(audioBlob);
+			
+			// Stop current audio if playing
+			this.plugin.onPlaybackEnded = null;
+			this.plugin.stopTrackingPosition();
+			this.plugin.stopReadingHighlight();
+			if (this.plugin.currentAudio instanceof ChunkedAudioPlayer) {
+				this.plugin.currentAudio.close();
+			} else if (this.plugin.currentAudio) {
+				this.plugin.currentAudio.pause();
+				URL.revokeObjectURL(this.plugin.currentAudio.src);
+			}
+			
+			// Create and play new audio
+			const audioElement = new Audio();
+			audioElement.src = audioUrl;
+			(audioElement as HTMLAudioElement & { preservesPitch?: boolean }).preservesPitch = true;
+			audioElement.playbackRate = this.plugin.settings.playbackRate;
+			audioElement.volume = this.plugin.settings.playbackVolume;
+			if (resume && saved) {
+				audioElement.currentTime = saved.position;
+			}
+			audioElement.addEventListener('ended', () => {
+				if (this.plugin.currentAudio !== audioElement) return;
+				this.plugin.isPlaying = false;
+				this.plugin.statusBarItem.setText('Gemini TTS: Stopped');
+				this.updatePlayerDisplay(false);
+				this.plugin.stopAtEndOfNote();
+			});
+			this.plugin.currentAudio = audioElement;
+			this.plugin.trackPosition(audio.path, audioElement);
+			this.plugin.mediaSession.attach(audioElement, audio.name.replace(/\.[^.]+$/, ''));
+			this.plugin.currentAudio.play();
+			this.plugin.isPlaying = true;
+			this.plugin.isPaused = false;
+			
+			new Notice(`Playing: ${audio.name}`);
+		} catch (error) {
+			new Notice(`Error playing audio: ${error.message}`);
+			console.error('[Gemini TTS] Error playing audio:', error);
+		}
+	}
+
+	async deleteAudio(audio: AudioFile) {
+		if (confirm(`Delete ${audio.name}?`)) {
+			try {
+				// Use Obsidian's vault API to delete files properly
+				// First try vault.delete if available, otherwise use adapter
+				const abstractFile = this.plugin.app.vault.getAbstractFileByPath(audio.path);
+				if (abstractFile) {
+					await this.plugin.app.vault.delete(abstractFile);
+					this.audioList = this.audioList.filter(a => a.path !== audio.path);
+					const container = this.containerEl.querySelector('#audio-list') as HTMLElement;
+					if (container) {
+						this.renderAudioList(container);
+					}
+					new Notice(`Deleted: ${audio.name}`);
+				} else {
+					// Fallback to adapter if file not found in vault
+					console.warn('[Gemini TTS] File not found in vault, trying adapter delete:', audio.path);
+					await this.plugin.app.vault.adapter.remove(audio.path);
+					this.audioList = this.audioList.filter(a => a.path !== audio.path);
+					const container = this.containerEl.querySelector('#audio-list') as HTMLElement;
+					if (container) {
+						this.renderAudioList(container);
+					}
+					new Notice(`Deleted: ${audio.name}`);
+				}
+			} catch (error) {
+				new Notice(`Error deleting audio: ${error.message}`);
+				console.error('[Gemini TTS] Error deleting audio:', error);
+			}
+		}
+	}
+
+	async openSourceNote(audio: AudioFile) {
+		const note = audio.notePath ? this.app.vault.getAbstractFileByPath(audio.notePath) : null;
+		if (note instanceof TFile) {
+			await this.app.workspace.getLeaf(false).openFile(note);
+		} else {
+			new Notice(`The note for ${audio.name} was not found`);
+		}
+	}
+
+	updateDeleteSelectedButton() {
+		const button = this.containerEl.querySelector('#library-delete-selected') as HTMLButtonElement;
+		if (!button) return;
+		button.disabled = this.selectedAudio.size === 0;
+		button.setAttribute('aria-label', this.selectedAudio.size > 0 ? `Delete ${this.selectedAudio.size} selected audio files` : 'Delete selected audio');
+	}
+
+	async deleteSelectedAudio() {
+		const paths = [...this.selectedAudio];
+		if (paths.length === 0 || !confirm(`Move ${paths.length} audio file(s) to the trash?`)) return;
+
+		for (const path of paths) {
+			const file = this.plugin.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.plugin.app.fileManager.trashFile(file);
+			}
+			this.selectedAudio.delete(path);
+		}
+		new Notice(`Deleted ${paths.length} audio file(s)`);
+		await this.refreshAudioList();
+	}
+
+	async refreshAudioList() {
+		await this.loadAudioFiles();
+		const container = this.containerEl.querySelector('#audio-list') as HTMLElement;
+		if (container) {
+			this.renderAudioList(container);
+		}
+	}
+
+	updateSleepTimerDisplay() {
+		const sleepBtn = this.containerEl.querySelector('#sleep-timer-btn') as HTMLElement;
+		if (!sleepBtn) return;
+
+		const { sleepTimerEndsAt, sleepAtEndOfNote } = this.plugin;
+		if (sleepTimerEndsAt !== null) {
+			sleepBtn.setText(`🌙 ${formatTime((sleepTimerEndsAt - Date.now()) / 1000)}`);
+		} else if (sleepAtEndOfNote) {
+			sleepBtn.setText('🌙 End of note');
+		} else {
+			sleepBtn.setText('🌙');
+		}
+	}
+
+	updatePlayerDisplay(isPlaying: boolean = false) {
+		const playerContainer = this.containerEl.querySelector('#sidebar-player-container') as HTMLElement;
+		if (!playerContainer) return;
+
+		playerContainer.empty();
+		
+		if (!isPlaying || !this.plugin.currentAudio) {
+			playerContainer.createDiv({ cls: 'gemini-tts-sidebar-empty', text: 'No audio playing' });
+		} else {
+			const playerDiv = playerContainer.createDiv({ cls: 'gemini-tts-sidebar-player-active' });
+			
+			// Main controls - Play/Pause and Stop buttons
+			const controlsDiv = playerDiv.createDiv({ cls: 'gemini-tts-sidebar-controls' });
+			
+			const pauseBtn = controlsDiv.createEl('button', { cls: 'gemini-tts-sidebar-btn gemini-tts-btn-large', text: '⏸️ Pause' });
+			pauseBtn.onclick = () => this.plugin.togglePauseResume();
+			
+			const stopBtn = controlsDiv.createEl('button', { cls: 'gemini-tts-sidebar-btn gemini-tts-btn-medium', text: '⏹️' });
+			stopBtn.onclick = () => {
+				this.plugin.stopPlayback();
+				this.updatePlayerDisplay(false);
+			};
+			
+			// Generated readings are only saved on request unless auto-save is on
+			if (this.plugin.currentAudio instanceof ChunkedAudioPlayer) {
+				const saveBtn = controlsDiv.createEl('button', { cls: 'gemini-tts-sidebar-btn gemini-tts-btn-medium', text: '💾' });
+				saveBtn.setAttribute('aria-label', 'Save audio to vault');
+				saveBtn.onclick = () => this.plugin.saveCurrentAudio();
+			}
+			
+			// Skip and paragraph controls
+			const skipDiv = playerDiv.createDiv({ cls: 'gemini-tts-sidebar-controls gemini-tts-skip-controls' });
+			const skipControls: [string, string, () => void][] = [
+				['⏮', 'Previous paragraph', () => this.plugin.jumpParagraph(-1)],
+				['-30', 'Back 30 seconds', () => this.plugin.skip(-30)],
+				['-10', 'Back 10 seconds', () => this.plugin.skip(-10)],
+				['+10', 'Forward 10 seconds', () => this.plugin.skip(10)],
+				['+30', 'Forward 30 seconds', () => this.plugin.skip(30)],
+				['⏭', 'Next paragraph', () => this.plugin.jumpParagraph(1)]
+			];
+			for (const [text, label, action] of skipControls) {
+				const button = skipDiv.createEl('button', { cls: 'gemini-tts-sidebar-btn', text });
+				button.setAttribute('aria-label', label);
+				button.onclick = action;
+			}
+			
+			// Progress bar
+			const progressContainer = playerDiv.createDiv({ cls: 'gemini-tts-progress-container' });
+			const progressBar = progressContainer.createEl('input', { cls: 'gemini-tts-progress-bar', attr: { type: 'range', min: '0', max: '100', value: '0' } }) as HTMLInputElement;
+			
+			// Time display
+			const timeDiv = progressContainer.createDiv({ cls: 'gemini-tts-time-display', text: '0:00 / 0:00' });
+			
+			// Volume control
+			const volumeContainer = playerDiv.createDiv({ cls: 'gemini-tts-volume-container' });
+			const volumeLabel = volumeContainer.createEl('span', { cls: 'gemini-tts-volume-label', text: '🔊' });
+			const volumeSlider = volumeContainer.createEl('input', { cls: 'gemini-tts-volume-slider', attr: { type: 'range', min: '0', max: '100', value: String(Math.round(this.plugin.settings.playbackVolume * 100)) } }) as HTMLInputElement;
+			
+			// Speed and sleep timer
+			const extrasDiv = playerDiv.createDiv({ cls: 'gemini-tts-volume-container' });
+			const speedSelect = extrasDiv.createEl('select', { cls: 'dropdown gemini-tts-speed-select' });
+			speedSelect.setAttribute('aria-label', 'Playback speed');
+			for (const rate of PLAYBACK_RATES) {
+				speedSelect.createEl('option', { text: `${rate}x`, value: String(rate) });
+			}
+			speedSelect.value = String(this.plugin.settings.playbackRate);
+			speedSelect.onchange = () => this.plugin.setPlaybackRate(parseFloat(speedSelect.value));
+			
+			const sleepBtn = extrasDiv.createEl('button', { cls: 'gemini-tts-sidebar-btn gemini-tts-sleep-btn', attr: { id: 'sleep-timer-btn' } });
+			sleepBtn.setAttribute('aria-label', 'Sleep timer');
+			sleepBtn.onclick = () => {
+				if (this.plugin.sleepTimerEndsAt !== null || this.plugin.sleepAtEndOfNote) {
+					this.plugin.cancelSleepTimer();
+					new Notice('Sleep timer cancelled');
+				} else {
+					new SleepTimerModal(this.app, this.plugin).open();
+				}
+			};
+			this.updateSleepTimerDisplay();
+			
+			if (this.plugin.currentAudio) {
+				// Update progress bar
+				const updateProgress = () => {
+					const current = Math.floor(this.plugin.currentAudio?.currentTime || 0);
+					const duration = Math.floor(this.plugin.currentAudio?.duration || 0);
+					
+					if (duration > 0) {
+						progressBar.max = duration.toString();
+						progressBar.value = current.toString();
+					}
+					
+					timeDiv.textContent = `${formatTime(current)} / ${formatTime(duration)}`;
+					this.updateSleepTimerDisplay();
+				};
+				
+				this.plugin.currentAudio.addEventListener('timeupdate', updateProgress);
+				this.plugin.currentAudio.addEventListener('loadedmetadata', updateProgress);
+				
+				// Seeking via progress bar
+				progressBar.addEventListener('input', (e) => {
+					const newTime = parseFloat((e.target as HTMLInputElement).value);
+					if (this.plugin.currentAudio) {
+						this.plugin.currentAudio.currentTime = newTime;
+					}
+				});
+				
+				// Volume control
+				volumeSlider.addEventListener('input', (e) => {
+					this.plugin.setVolume(parseFloat((e.target as HTMLInputElement).value) / 100);
+				});
+				this.plugin.currentAudio.addEventListener('ratechange', () => {
+					speedSelect.value = String(this.plugin.currentAudio?.playbackRate ?? this.plugin.settings.playbackRate);
+				});
+				this.plugin.currentAudio.addEventListener('volumechange', () => {
+					volumeSlider.value = String(Math.round((this.plugin.currentAudio?.volume ?? 1) * 100));
+				});
+			}
+		}
+	}
+}
+
+export default class GeminiTTSPlugin extends Plugin {
+	settings: GeminiTTSSettings;
+	statusBarItem: HTMLElement;
+	profileStatusBarItem: HTMLElement;
+	currentAudio: HTMLAudioElement | ChunkedAudioPlayer | null = null;
+	currentAudioBlob: Blob | null = null;
+	isPlaying: boolean = false;
+	isPaused: boolean = false;
+	audioPlayerView: HTMLElement | null = null;
+	sidebarView: GeminiTTSSidebarView | null = null;
+	readingHighlighter: ReadingHighlighter | null = null;
+	audioCache: AudioCache;
+	library: AudioLibrary;
+	usage: UsageMeter;
+	podcastExporter: PodcastExporter;
+	providers: { gemini: GeminiProvider; openai: OpenAICompatibleProvider };
+	// Cancels the requests of the reading that is being generated
+	generationController: AbortController | null = null;
+	// Content key of the current audio, used to avoid saving the same reading twice
+	currentAudioKey: string | null = null;
+	// Note the current audio was read from, used to name the saved file
+	currentAudioFile: TFile | null = null;
+	// Voices of the current audio, written to the saved file's tags
+	currentAudioVoices = '';
+	queue: PlaybackQueue;
+	mediaSession: MediaSessionController;
+	// Called when the current reading plays to the end; cleared when playback is stopped
+	onPlaybackEnded: (() => void) | null = null;
+	// Audio whose playback position is being remembered, see trackPosition
+	positionTracker: {
+		path: string;
+		audio: HTMLAudioElement | ChunkedAudioPlayer;
+		startTime: number;
+		offsetAt?: (time: number) => number | undefined;
+	} | null = null;
+	private positionSavedAt = 0;
+	// Spoken text and chunks of the note being read, for jumping between paragraphs
+	currentReading: { text: string; chunks: SpeechChunk[]; player: ChunkedAudioPlayer } | null = null;
+	sleepTimer: number | null = null;
+	sleepTimerEndsAt: number | null = null;
+	sleepAtEndOfNote = false;
+	// Speech models fetched from the Gemini API, see getSpeechModels
+	speechModels: string[] | null = null;
+
+	async onload() {
+		await this.loadSettings();
+		this.audioCache = new AudioCache(this);
+		this.library = new AudioLibrary(this);
+		this.usage = new UsageMeter(this);
+		await this.usage.load();
+		this.podcastExporter = new PodcastExporter(this);
+		this.providers = {
+			gemini: new GeminiProvider(this),
+			openai: new OpenAICompatibleProvider(this)
+		};
+		this.queue = new PlaybackQueue(this);
+		this.mediaSession = new MediaSessionController(this);
+
+		// Register sidebar view
+		this.registerView(SIDEBAR_VIEW_TYPE, (leaf) => {
+			this.sidebarView = new GeminiTTSSidebarView(leaf, this);
+			return this.sidebarView;
+		});
+
+		// Open sidebar automatically on startup
+		this.app.workspace.onLayoutReady(async () => {
+			const existing = this.app.workspace.getLeavesOfType(SIDEBAR_VIEW_TYPE);
+			if (existing.length === 0) {
+				const rightLeaf = this.app.workspace.getRightLeaf(false);
+				if (rightLeaf) {
+					await rightLeaf.setViewState({
+						type: SIDEBAR_VIEW_TYPE,
+						active: true
+					});
+				}
+			}
+		});
+
+		// Add sidebar toggle command
+		this.addCommand({
+			id: 'toggle-tts-sidebar',
+			name: 'Toggle TTS sidebar',
+			callback: async () => {
+				const existing = this.app.workspace.getLeavesOfType(SIDEBAR_VIEW_TYPE);
+				if (existing.length > 0) {
+					this.app.workspace.detachLeavesOfType(SIDEBAR_VIEW_TYPE);
+				} else {
+					const rightLeaf = this.app.workspace.getRightLeaf(false);
+					if (rightLeaf) {
+						await rightLeaf.setViewState({
+							type: SIDEBAR_VIEW_TYPE,
+							active: true
+						});
+					}
+				}
+			}
+		});
+
+		// Add status bar item
+		this.statusBarItem = this.addStatusBarItem();
+		this.statusBarItem.setText('Gemini TTS');
+
+		// Add status bar switcher for reading profiles, shown once there are profiles
+		this.profileStatusBarItem = this.addStatusBarItem();
+		this.profileStatusBarItem.addClass('mod-clickable');
+		this.profileStatusBarItem.setAttribute('aria-label', 'Switch reading profile');
+		this.profileStatusBarItem.onclick = () => new ProfileSuggestModal(this.app, this, 'Switch to reading profile...', profile => {
+			if (profile) this.useProfile(profile);
+		}).open();
+		this.updateProfileStatus();
+
+		// Add ribbon icon
+		const ribbonIconEl = this.addRibbonIcon('microphone', 'Gemini TTS', async (evt: MouseEvent) => {
+			await this.readActiveNote();
+		});
+		ribbonIconEl.addClass('gemini-tts-ribbon-class');
+
+		// Add command to read active note
+		this.addCommand({
+			id: 'read-active-note',
+			name: 'Read active note',
+			callback: async () => {
+				await this.readActiveNote();
+			}
+		});
+
+		// Add commands to read part of the active note
+		this.addCommand({
+			id: 'read-selection',
+			name: 'Read selection',
+			editorCallback: async (editor: Editor) => {
+				await this.readSelection(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'read-from-cursor',
+			name: 'Read from cursor',
+			editorCallback: async (editor: Editor) => {
+				await this.readFromCursor(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'read-heading-section',
+			name: 'Read current heading section',
+			editorCallback: async (editor: Editor) => {
+				await this.readHeadingSection(editor);
+			}
+		});
+
+		// Add read commands to the editor context menu
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor) => {
+			if (editor.somethingSelected()) {
+				menu.addItem(item => item
+					.setTitle('Read selection aloud')
+					.setIcon('mic')
+					.onClick(() => this.readSelection(editor))
+				);
+			}
+			menu.addItem(item => item
+				.setTitle('Read from cursor')
+				.setIcon('mic')
+				.onClick(() => this.readFromCursor(editor))
+			);
+			menu.addItem(item => item
+				.setTitle('Read current heading section')
+				.setIcon('mic')
+				.onClick(() => this.readHeadingSection(editor))
+			);
+		}));
+
+		// Highlight the text being read, and seek to a paragraph when it is clicked
+		this.registerEditorExtension([
+			readingHighlightField,
+			EditorView.domEventHandlers({
+				click: (event, view) => {
+					const highlighter = this.readingHighlighter;
+					if (!highlighter || highlighter.editorView !== view || !this.settings.clickToSeek) {
+						return false;
+					}
+					const position = view.posAtCoords({ x: event.clientX, y: event.clientY });
+					if (position !== null) {
+						highlighter.seekToParagraphAt(position);
+					}
+					// Let the editor place the cursor as usual
+					return false;
+				}
+			})
+		]);
+
+		// Add command to add the selected word to the pronunciation lexicon
+		this.addCommand({
+			id: 'add-to-lexicon',
+			name: 'Add selection to pronunciation lexicon',
+			editorCallback: (editor: Editor) => {
+				const term = editor.getSelection().trim();
+				if (!term) {
+					new Notice('Select a word first');
+					return;
+				}
+				new LexiconEntryModal(this.app, this, term).open();
+			}
+		});
+
+		// Add commands to fill and play the playback queue
+		this.addCommand({
+			id: 'queue-active-note',
+			name: 'Add active note to queue',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) {
+					this.queue.add([file]);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'queue-folder',
+			name: 'Add notes in a folder to queue',
+			callback: () => {
+				new FolderNotesModal(this.app, this, 'Add the notes in a folder to the queue', files => this.queue.add(files)).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'queue-tag',
+			name: 'Add notes with a tag to queue',
+			callback: () => {
+				new TagNotesModal(this.app, 'Add the notes with a tag to the queue', files => this.queue.add(files)).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'queue-search',
+			name: 'Add search results to queue',
+			callback: () => {
+				new QueueSearchModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'play-queue',
+			name: 'Play queue',
+			callback: async () => {
+				await this.queue.play();
+			}
+		});
+
+		this.addCommand({
+			id: 'play-next-in-queue',
+			name: 'Play next note in queue',
+			callback: async () => {
+				await this.queue.playNext();
+			}
+		});
+
+		// Add notes and folders to the queue from the file menu
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (file instanceof TFolder || (file instanceof TFile && file.extension === 'md')) {
+				menu.addItem(item => item
+					.setTitle('Add to TTS queue')
+					.setIcon('list-plus')
+					.onClick(() => this.queue.add(this.getNotesIn(file)))
+				);
+				menu.addItem(item => item
+					.setTitle('Render to audio')
+					.setIcon('file-audio')
+					.onClick(() => new BatchRenderModal(this.app, this, this.getNotesIn(file)).open())
+				);
+			}
+		}));
+
+		// Add command to switch reading profile
+		this.addCommand({
+			id: 'switch-reading-profile',
+			name: 'Switch reading profile',
+			callback: () => {
+				if (this.settings.readingProfiles.length === 0) {
+					new Notice('No reading profiles yet. Add one in the plugin settings.');
+					return;
+				}
+				new ProfileSuggestModal(this.app, this, 'Switch to reading profile...', profile => {
+					if (profile) this.useProfile(profile);
+				}).open();
+			}
+		});
+		this.registerProfileCommands();
+
+		// Add folder menu item to pick the folder's default reading profile
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (!(file instanceof TFolder) || this.settings.readingProfiles.length === 0) return;
+			menu.addItem(item => item
+				.setTitle('Set reading profile')
+				.setIcon('user-cog')
+				.onClick(() => new ProfileSuggestModal(this.app, this, `Read notes in ${file.name || 'the vault'} with...`,
+					profile => this.setFolderProfile(file, profile), true).open())
+			);
+		}));
+
+		// Keep the queue, saved positions and saved audio in step with renamed and deleted files
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.queue.renamePath(oldPath, file.path);
+			this.renamePlaybackPosition(oldPath, file.path);
+			this.library.renamePath(oldPath, file.path);
+			this.renameFolderProfiles(oldPath, file.path);
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			this.queue.removePath(file.path);
+			this.forgetPlaybackPosition(file.path);
+			this.library.removePath(file.path);
+			this.renameFolderProfiles(file.path, null);
+		}));
+
+		// Add command to remove saved audio past the retention limits
+		this.addCommand({
+			id: 'clean-up-saved-audio',
+			name: 'Clean up saved audio',
+			callback: async () => {
+				const { retentionPerNote, retentionDays, retentionMaxSizeMB } = this.settings;
+				if (!retentionPerNote && !retentionDays && !retentionMaxSizeMB) {
+					new Notice('Set a retention limit in the settings first');
+					return;
+				}
+				const removed = await this.library.applyRetention();
+				new Notice(removed > 0 ? `Moved ${removed} saved audio file(s) to the trash` : 'No saved audio past the retention limits');
+				await this.sidebarView?.refreshAudioList();
+			}
+		});
+
+		// Add commands to read a summary or translation of the active note
+		this.addCommand({
+			id: 'summarize-and-read',
+			name: 'Summarise active note and read aloud',
+			callback: () => this.previewScript('summary')
+		});
+
+		this.addCommand({
+			id: 'translate-and-read',
+			name: 'Translate active note and read aloud',
+			callback: () => this.previewScript('translation')
+		});
+
+		// Add commands to render many notes to audio
+		this.addCommand({
+			id: 'render-folder-to-audio',
+			name: 'Render notes in a folder to audio',
+			callback: () => {
+				new FolderNotesModal(this.app, this, 'Render the notes in a folder to audio', files => new BatchRenderModal(this.app, this, files).open()).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'render-tag-to-audio',
+			name: 'Render notes with a tag to audio',
+			callback: () => {
+				new TagNotesModal(this.app, 'Render the notes with a tag to audio', files => new BatchRenderModal(this.app, this, files).open()).open();
+			}
+		});
+
+		// Add command to export saved audio as a podcast feed
+		this.addCommand({
+			id: 'export-podcast-feed',
+			name: 'Export podcast feed',
+			callback: () => {
+				new PodcastSourceModal(this.app, this).open();
+			}
+		});
+
+		// Add command to clear the audio cache
+		this.addCommand({
+			id: 'clear-audio-cache',
+			name: 'Clear audio cache',
+			callback: async () => {
+				await this.audioCache.clear();
+				new Notice('Audio cache cleared');
+			}
+		});
+
+		// Add command to stop playback
+		this.addCommand({
+			id: 'stop-playback',
+			name: 'Stop playback',
+			callback: () => {
+				this.stopPlayback();
+			}
+		});
+
+		// Add command to pause/resume playback
+		this.addCommand({
+			id: 'pause-resume-playback',
+			name: 'Pause/Resume playback',
+			callback: () => {
+				this.togglePauseResume();
+			}
+		});
+
+		// Add commands for the player controls
+		this.addCommand({
+			id: 'playback-faster',
+			name: 'Increase playback speed',
+			callback: () => this.changePlaybackRate(1)
+		});
+
+		this.addCommand({
+			id: 'playback-slower',
+			name: 'Decrease playback speed',
+			callback: () => this.changePlaybackRate(-1)
+		});
+
+		this.addCommand({
+			id: 'playback-normal-speed',
+			name: 'Reset playback speed',
+			callback: () => {
+				this.setPlaybackRate(1);
+				new Notice('Playback speed: 1x');
+			}
+		});
+
+		for (const seconds of [10, 30]) {
+			this.addCommand({
+				id: `skip-forward-${seconds}`,
+				name: `Skip forward ${seconds} seconds`,
+				callback: () => this.skip(seconds)
+			});
+			this.addCommand({
+				id: `skip-back-${seconds}`,
+				name: `Skip back ${seconds} seconds`,
+				callback: () => this.skip(-seconds)
+			});
+		}
+
+		this.addCommand({
+			id: 'next-paragraph',
+			name: 'Jump to next paragraph',
+			callback: () => this.jumpParagraph(1)
+		});
+
+		this.addCommand({
+			id: 'previous-paragraph',
+			name: 'Jump to previous paragraph',
+			callback: () => this.jumpParagraph(-1)
+		});
+
+		this.addCommand({
+			id: 'volume-up',
+			name: 'Increase volume',
+			callback: () => this.setVolume(this.settings.playbackVolume + 0.1)
+		});
+
+		this.addCommand({
+			id: 'volume-down',
+			name: 'Decrease volume',
+			callback: () => this.setVolume(this.settings.playbackVolume - 0.1)
+		});
+
+		this.addCommand({
+			id: 'set-sleep-timer',
+			name: 'Set sleep timer',
+			callback: () => new SleepTimerModal(this.app, this).open()
+		});
+
+		this.addCommand({
+			id: 'cancel-sleep-timer',
+			name: 'Cancel sleep timer',
+			callback: () => {
+				this.cancelSleepTimer();
+				new Notice('Sleep timer cancelled');
+			}
+		});
+
+		// Add command to save current audio
+		this.addCommand({
+			id: 'save-current-audio',
+			name: 'Save current audio to file',
+			callback: () => {
+				this.saveCurrentAudio();
+			}
+		});
+
+		// Add settings tab
+		this.addSettingTab(new GeminiTTSSettingTab(this.app, this));
+	}
+
+	onunload() {
+		this.cancelSleepTimer();
+		this.stopPlayback();
+		this.audioCache.flush();
+		this.usage.flush();
+	}
+
+	async loadSettings() {
+		const data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+		// A single apiKey from earlier versions becomes the default named key
+		if (data && typeof data.apiKey === 'string' && !data.apiKeys) {
+			this.settings.apiKeys = [{ id: 'default', name: 'Default', key: data.apiKey, deviceOnly: false }];
+			delete (this.settings as GeminiTTSSettings & { apiKey?: string }).apiKey;
+		}
+		this.settings.apiKeys = this.settings.apiKeys.map(entry => ({ ...entry }));
+
+		// Merge speech rules per element so elements added later get their defaults
+		this.settings.speechRules = mergeSpeechRules(data?.speechRules);
+		this.settings.readingProfiles = this.settings.readingProfiles.map(profile => ({
+			...profile,
+			speechRules: mergeSpeechRules(profile.speechRules)
+		}));
+		this.settings.folderProfiles = { ...this.settings.folderProfiles };
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+	}
+
+	/**
+	 * Returns a Gemini API key by id, the active key by default.
+	 */
+	getGeminiApiKey(id: string = this.settings.activeApiKeyId): string {
+		const { apiKeys } = this.settings;
+		const entry = apiKeys.find(apiKey => apiKey.id === id) || apiKeys[0];
+		if (!entry) return '';
+		return entry.deviceOnly ? this.app.loadLocalStorage(`gemini-tts-api-key-${entry.id}`) || '' : entry.key;
+	}
+
+	async setGeminiApiKey(entry: GeminiApiKey, value: string) {
+		if (entry.deviceOnly) {
+			this.app.saveLocalStorage(`gemini-tts-api-key-${entry.id}`, value || null);
+		} else {
+			entry.key = value;
+		}
+		await this.saveSettings();
+	}
+
+	/**
+	 * Moves a key between the synced plugin data and this device's storage.
+	 */
+	async setApiKeyDeviceOnly(entry: GeminiApiKey, deviceOnly: boolean) {
+		const value = this.getGeminiApiKey(entry.id);
+		this.app.saveLocalStorage(`gemini-tts-api-key-${entry.id}`, null);
+		entry.key = '';
+		entry.deviceOnly = deviceOnly;
+		await this.setGeminiApiKey(entry, value);
+	}
+
+	/**
+	 * Builds a profile from the current reading settings.
+	 */
+	captureProfile(name: string, id: string = Date.now().toString(36), apiKeyId: string = ''): ReadingProfile {
+		const { settings } = this;
+		const openai = settings.provider === 'openai';
+		return {
+			id,
+			name,
+			provider: settings.provider,
+			voiceName: openai ? settings.openaiVoice : settings.voiceName,
+			modelName: openai ? settings.openaiModel : settings.modelName,
+			stylePrompt: settings.stylePrompt,
+			skipCodeBlocks: settings.skipCodeBlocks,
+			speechRules: mergeSpeechRules(settings.speechRules),
+			apiKeyId
+		};
+	}
+
+	/**
+	 * Copies a profile into the settings and makes it the active one.
+	 */
+	async useProfile(profile: ReadingProfile) {
+		const { settings } = this;
+		settings.provider = profile.provider;
+		if (profile.provider === 'openai') {
+			settings.openaiVoice = profile.voiceName;
+			settings.openaiModel = profile.modelName;
+		} else {
+			settings.voiceName = profile.voiceName;
+			settings.modelName = profile.modelName;
+		}
+		settings.stylePrompt = profile.stylePrompt;
+		settings.skipCodeBlocks = profile.skipCodeBlocks;
+		settings.speechRules = mergeSpeechRules(profile.speechRules);
+		if (settings.apiKeys.some(entry => entry.id === profile.apiKeyId)) {
+			settings.activeApiKeyId = profile.apiKeyId;
+		}
+		settings.activeProfileId = profile.id;
+		await this.saveSettings();
+		this.updateProfileStatus();
+		new Notice(`Reading profile: ${profile.name}`);
+	}
+
+	getActiveProfile(): ReadingProfile | null {
+		return this.settings.readingProfiles.find(profile => profile.id === this.settings.activeProfileId) || null;
+	}
+
+	/**
+	 * Returns the profile a note should be read with: the one named in its
+	 * tts-profile frontmatter property, or else the default of the nearest folder.
+	 */
+	getDefaultProfile(file: TFile | null, noteContent: string): ReadingProfile | null {
+		const profiles = this.settings.readingProfiles;
+		const name = this.getNoteOverrides(noteContent).profile;
+		if (name) {
+			const named = profiles.find(profile => profile.name.toLowerCase() === name.toLowerCase());
+			if (named) return named;
+			console.log('[Gemini TTS] Unknown reading profile in frontmatter:', name);
+		}
+
+		for (let folder = file?.parent; folder; folder = folder.parent) {
+			const id = this.settings.folderProfiles[folder.path];
+			const profile = id && profiles.find(candidate => candidate.id === id);
+			if (profile) return profile;
+		}
+		return null;
+	}
+
+	/**
+	 * Returns the notes whose tts-profile frontmatter property names a profile.
+	 */
+	findProfileReferences(name: string): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => {
+			const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.['tts-profile'];
+			return typeof value === 'string' && value.trim().toLowerCase() === name.trim().toLowerCase();
+		});
+	}
+
+	/**
+	 * Returns the settings a note is read with: its frontmatter on top of its
+	 * default profile. The profile applies to this reading only and does not
+	 * become the active one.
+	 */
+	getReadingOverrides(file: TFile | null, noteContent: string): NoteOverrides {
+		const overrides = this.getNoteOverrides(noteContent);
+		const profile = this.getDefaultProfile(file, noteContent);
+		if (!profile) return overrides;
+
+		const hasApiKey = this.settings.apiKeys.some(entry => entry.id === profile.apiKeyId);
+		return {
+			provider: profile.provider,
+			voiceName: profile.voiceName,
+			modelName: profile.modelName,
+			stylePrompt: profile.stylePrompt,
+			skipCodeBlocks: profile.skipCodeBlocks,
+			speechRules: profile.speechRules,
+			apiKeyId: hasApiKey ? profile.apiKeyId : undefined,
+			...overrides
+		};
+	}
+
+	async setFolderProfile(folder: TFolder, profile: ReadingProfile | null) {
+		if (profile) {
+			this.settings.folderProfiles[folder.path] = profile.id;
+		} else {
+			delete this.settings.folderProfiles[folder.path];
+		}
+		await this.saveSettings();
+		new Notice(profile ? `Notes in ${folder.name || 'the vault'} are read with ${profile.name}` : `${folder.name || 'The vault'} has no default reading profile`);
+	}
+
+	/**
+	 * Moves folder default profiles along with a renamed folder, or drops
+	 * them when newPath is null because the folder was deleted.
+	 */
+	renameFolderProfiles(oldPath: string, newPath: string | null) {
+		const { folderProfiles } = this.settings;
+		let changed = false;
+		for (const [path, id] of Object.entries(folderProfiles)) {
+			if (path !== oldPath && !path.startsWith(`${oldPath}/`)) continue;
+			delete folderProfiles[path];
+			if (newPath !== null) {
+				folderProfiles[newPath + path.slice(oldPath.length)] = id;
+			}
+			changed = true;
+		}
+		if (changed) this.saveSettings();
+	}
+
+	async deleteProfile(profile: ReadingProfile) {
+		const { settings } = this;
+		settings.readingProfiles = settings.readingProfiles.filter(candidate => candidate !== profile);
+		for (const [path, id] of Object.entries(settings.folderProfiles)) {
+			if (id === profile.id) delete settings.folderProfiles[path];
+		}
+		if (settings.activeProfileId === profile.id) {
+			settings.activeProfileId = '';
+		}
+		await this.saveSettings();
+		this.updateProfileStatus();
+	}
+
+	/**
+	 * Adds a "Use reading profile" command for each profile. Commands of
+	 * deleted profiles stay registered until reload but are hidden.
+	 */
+	registerProfileCommands() {
+		for (const profile of this.settings.readingProfiles) {
+			this.addCommand({
+				id: `use-profile-${profile.id}`,
+				name: `Use reading profile: ${profile.name}`,
+				checkCallback: (checking: boolean) => {
+					const current = this.settings.readingProfiles.find(candidate => candidate.id === profile.id);
+					if (!current) return false;
+					if (!checking) {
+						this.useProfile(current);
+					}
+					return true;
+				}
+			});
+		}
+	}
+
+	updateProfileStatus() {
+		if (!this.profileStatusBarItem) return;
+		const profile = this.getActiveProfile();
+		this.profileStatusBarItem.toggle(this.settings.readingProfiles.length > 0);
+		this.profileStatusBarItem.setText(`Profile: ${profile ? profile.name : 'None'}`);
+	}
+
+	/**
+	 * Reads tts-voice, tts-style, tts-model and tts-profile from the note's frontmatter.
+	 */
+	getNoteOverrides(text: string): NoteOverrides {
+		const overrides: NoteOverrides = {};
+		const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/);
+		if (!match) return overrides;
+
+		let frontmatter: Record<string, unknown> | null = null;
+		try {
+			frontmatter = parseYaml(match[1]);
+		} catch (error) {
+			console.warn('[Gemini TTS] Could not parse frontmatter:', error);
+			return overrides;
+		}
+		if (!frontmatter || typeof frontmatter !== 'object') return overrides;
+
+		for (const [key, setting] of Object.entries(FRONTMATTER_OVERRIDE_KEYS)) {
+			const value = frontmatter[key];
+			if (typeof value === 'string' && value.trim().length > 0) {
+				overrides[setting] = value.trim();
+			}
+		}
+
+		if (typeof frontmatter['tts-dialogue'] === 'boolean') {
+			overrides.dialogueMode = frontmatter['tts-dialogue'];
+		}
+		if (frontmatter['tts-speakers']) {
+			overrides.speakerVoices = this.parseSpeakerVoices(frontmatter['tts-speakers']);
+		}
+		return overrides;
+	}
+
+	/**
+	 * Parses speaker-to-voice mappings given either as an object
+	 * ({ Alice: Kore }), a list of "Alice: Kore" entries, or one entry per line.
+	 */
+	parseSpeakerVoices(value: unknown): Record<string, string> {
+		const speakerVoices: Record<string, string> = {};
+		let entries: [string, unknown][] = [];
+
+		if (typeof value === 'string') {
+			entries = value.split('\n').map(line => line.split(':') as [string, string]);
+		} else if (Array.isArray(value)) {
+			entries = value
+				.filter((item): item is string => typeof item === 'string')
+				.map(item => item.split(':') as [string, string]);
+		} else if (value && typeof value === 'object') {
+			entries = Object.entries(value);
+		}
+
+		for (const [speaker, voice] of entries) {
+			if (typeof speaker !== 'string' || typeof voice !== 'string') continue;
+			if (speaker.trim() && voice.trim()) {
+				speakerVoices[speaker.trim()] = this.resolveVoiceName(voice);
+			}
+		}
+		return speakerVoices;
+	}
+
+	/**
+	 * Returns the note itself, or every note inside a folder sorted by path.
+	 */
+	getNotesIn(file: TAbstractFile): TFile[] {
+		if (file instanceof TFile) return [file];
+		const prefix = file.path === '/' ? '' : `${file.path}/`;
+		return this.app.vault.getMarkdownFiles()
+			.filter(note => note.path.startsWith(prefix))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	getProvider(id: TTSProviderId = this.settings.provider): TTSProvider {
+		return this.providers[id] || this.providers.gemini;
+	}
+
+	/**
+	 * Maps a voice given in any case, with or without its description
+	 * (e.g. "zephyr" or "Zephyr - Bright"), to the provider's voice name.
+	 */
+	resolveVoiceName(voiceName: string, provider: TTSProvider = this.getProvider()): string {
+		const name = (voiceName.includes(' - ') ? voiceName.split(' - ')[0] : voiceName).trim();
+		const known = provider.getVoices().find(([voice]) => voice.toLowerCase() === name.toLowerCase());
+		return known ? known[0] : name;
+	}
+
+	cleanText(text: string): string {
+		return this.cleanMarkdown(text).text;
+	}
+
+	/**
+	 * Turns markdown into speakable text while keeping track of where each
+	 * character came from. baseOffset is the position of text in the note.
+	 */
+	cleanMarkdown(text: string, baseOffset: number = 0, overrides: NoteOverrides = {}): MappedText {
+		const transformer = new MarkdownSpeechTransformer(
+			overrides.speechRules || this.settings.speechRules,
+			overrides.skipCodeBlocks ?? this.settings.skipCodeBlocks
+		);
+		return transformer.transform(text, baseOffset);
+	}
+
+	/**
+	 * Splits cleaned text into sentences and maps each one back to the note.
+	 * Sentences on the same line share a paragraph number.
+	 */
+	buildReadingSegments(cleaned: MappedText): ReadingSegment[] {
+		const segments: ReadingSegment[] = [];
+		const lines = splitRanges(cleaned.text, { start: 0, end: cleaned.text.length }, /\n/);
+
+		lines.forEach((line, paragraph) => {
+			for (const sentence of splitRanges(cleaned.text, line, SENTENCE_BOUNDARY)) {
+				const { from, to } = cleaned.sourceRange(sentence.start, sentence.end);
+				segments.push({ start: sentence.start, end: sentence.end, from, to, paragraph });
+			}
+		});
+		return segments;
+	}
+
+	/**
+	 * Returns the lexicon entries from the lexicon note followed by the ones
+	 * stored in settings.
+	 */
+	async loadLexicon(): Promise<LexiconEntry[]> {
+		const entries: LexiconEntry[] = [];
+		const notePath = this.settings.lexiconNotePath.trim();
+		if (notePath) {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (file instanceof TFile) {
+				entries.push(...this.parseLexiconNote(await this.app.vault.cachedRead(file)));
+			} else {
+				console.warn('[Gemini TTS] Lexicon note not found:', notePath);
+			}
+		}
+		return entries.concat(this.settings.lexiconEntries);
+	}
+
+	/**
+	 * Reads entries from the table rows of a lexicon note:
+	 * | Term | Say | Options |, where options may contain "case-sensitive",
+	 * "partial" (match inside words) and "regex". A term written as /pattern/
+	 * is always a regular expression.
+	 */
+	parseLexiconNote(content: string): LexiconEntry[] {
+		const entries: LexiconEntry[] = [];
+		for (const line of content.split('\n')) {
+			if (!line.trim().startsWith('|')) continue;
+
+			const cells = (line.trim().replace(/^\||\|$/g, '').match(/(?:\\\||[^|])+/g) || [])
+				.map(cell => cell.trim().replace(/\\\|/g, '|').replace(/^`(.*)`$/, '$1'));
+			const [term, replacement = '', options = ''] = cells;
+
+			// Skip the header and separator rows
+			if (!term || /^:?-+:?$/.test(term) || /^term$/i.test(term)) continue;
+
+			const flags = options.toLowerCase();
+			const regexTerm = term.match(/^\/(.+)\/$/);
+			entries.push({
+				term: regexTerm ? regexTerm[1] : term,
+				replacement,
+				regex: !!regexTerm || flags.includes('regex'),
+				caseSensitive: flags.includes('case'),
+				wholeWord: !flags.includes('partial')
+			});
+		}
+		return entries;
+	}
+
+	/**
+	 * Applies the pronunciation lexicon to cleaned text, keeping the mapping
+	 * back to the note intact.
+	 */
+	async applyLexicon(text: MappedText): Promise<MappedText> {
+		let result = text;
+		for (const entry of await this.loadLexicon()) {
+			const pattern = this.buildLexiconPattern(entry);
+			if (!pattern) continue;
+			// Plain entries are spoken literally, so escape "$" in the replacement
+			const replacement = entry.regex ? entry.replacement : entry.replacement.replace(/\$/g, '$$$$');
+			result = result.replace(pattern, replacement);
+		}
+		return result;
+	}
+
+	buildLexiconPattern(entry: LexiconEntry): RegExp | null {
+		if (!entry.term) return null;
+
+		let source = entry.regex ? entry.term : entry.term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		if (entry.wholeWord !== false) {
+			// \b only knows ASCII, so use Unicode-aware boundaries for names like "Þórður"
+			source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+		}
+
+		try {
+			return new RegExp(source, entry.caseSensitive ? 'gu' : 'giu');
+		} catch (error) {
+			console.warn('[Gemini TTS] Invalid lexicon entry:', entry.term, error.message);
+			return null;
+		}
+	}
+
+	/**
+	 * Adds an entry to the lexicon note if one is configured, otherwise to the
+	 * entries stored in settings.
+	 */
+	async addLexiconEntry(entry: LexiconEntry) {
+		const notePath = this.settings.lexiconNotePath.trim();
+		if (!notePath) {
+			this.settings.lexiconEntries.push(entry);
+			await this.saveSettings();
+			new Notice(`Added "${entry.term}" to the pronunciation lexicon`);
+			return;
+		}
+
+		const escapeCell = (value: string) => value.replace(/\|/g, '\\|');
+		const options = [entry.caseSensitive ? 'case-sensitive' : '', entry.wholeWord === false ? 'partial' : '']
+			.filter(option => option)
+			.join(', ');
+		const row = `| ${escapeCell(entry.term)} | ${escapeCell(entry.replacement)} | ${options} |`;
+
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (file instanceof TFile) {
+			const content = await this.app.vault.read(file);
+			await this.app.vault.modify(file, `${content.replace(/\n*$/, '')}\n${row}\n`);
+		} else {
+			const folder = notePath.includes('/') ? notePath.slice(0, notePath.lastIndexOf('/')) : '';
+			if (folder && !await this.app.vault.adapter.exists(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			await this.app.vault.create(notePath, `| Term | Say | Options |\n| --- | --- | --- |\n${row}\n`);
+		}
+		new Notice(`Added "${entry.term}" to ${notePath}`);
+	}
+
+	getMaxChunkLength(): number {
+		return Math.max(100, this.settings.maxChunkCharacters || DEFAULT_SETTINGS.maxChunkCharacters);
+	}
+
+	/**
+	 * Builds the synthesis requests for a text. In dialogue mode, texts with at
+	 * least two speakers are split into multi-speaker chunks.
+	 */
+	buildSpeechChunks(text: string, overrides: NoteOverrides = {}): SpeechChunk[] {
+		const dialogueMode = overrides.dialogueMode ?? this.settings.dialogueMode;
+		if (dialogueMode) {
+			const speakers = this.findSpeakers(text);
+			if (speakers.length >= 2) {
+				const speakerVoices = this.assignSpeakerVoices(speakers, overrides);
+				console.log('[Gemini TTS] Dialogue mode, speakers:', speakerVoices);
+				return this.splitDialogueIntoChunks(text, speakerVoices, this.getProvider(overrides.provider));
+			}
+			console.log('[Gemini TTS] Dialogue mode is on but fewer than two speakers were found');
+		}
+		return this.splitIntoChunks(text);
+	}
+
+	/**
+	 * Returns speaker labels that start at least two lines, in order of
+	 * first appearance.
+	 */
+	findSpeakers(text: string): string[] {
+		const counts = new Map<string, number>();
+		for (const line of text.split('\n')) {
+			const match = line.trim().match(SPEAKER_LINE_PATTERN);
+			if (match) {
+				counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+			}
+		}
+		return Array.from(counts.entries())
+			.filter(([, count]) => count >= 2)
+			.map(([speaker]) => speaker);
+	}
+
+	/**
+	 * Assigns a voice to every speaker. Mappings from frontmatter win over the
+	 * ones in settings; remaining speakers get the default voice first and then
+	 * unused voices from the voice list.
+	 */
+	assignSpeakerVoices(speakers: string[], overrides: NoteOverrides = {}): Record<string, string> {
+		const provider = this.getProvider(overrides.provider);
+		const configured = new Map<string, string>();
+		for (const [speaker, voice] of Object.entries({ ...this.settings.speakerVoices, ...overrides.speakerVoices })) {
+			configured.set(speaker.toLowerCase(), this.resolveVoiceName(voice, provider));
+		}
+
+		const speakerVoices: Record<string, string> = {};
+		const usedVoices = new Set<string>();
+		for (const speaker of speakers) {
+			const voice = configured.get(speaker.toLowerCase());
+			if (voice) {
+				speakerVoices[speaker] = voice;
+				usedVoices.add(voice);
+			}
+		}
+
+		const defaultVoice = this.resolveVoiceName(overrides.voiceName || provider.getDefaultVoice(), provider);
+		const candidates = [defaultVoice, ...provider.getVoices().map(([voice]) => voice)];
+		for (const speaker of speakers) {
+			if (speakerVoices[speaker]) continue;
+			const voice = candidates.find(candidate => !usedVoices.has(candidate)) || defaultVoice;
+			speakerVoices[speaker] = voice;
+			usedVoices.add(voice);
+		}
+		return speakerVoices;
+	}
+
+	/**
+	 * Splits a dialogue into chunks line by line. Gemini accepts at most two
+	 * speakers per request, so a chunk ends when a third speaker would join it.
+	 * Providers without multi-speaker support get one speaker per chunk.
+	 */
+	splitDialogueIntoChunks(text: string, speakerVoices: Record<string, string>, provider: TTSProvider = this.getProvider()): SpeechChunk[] {
+		const maxLength = this.getMaxChunkLength();
+		const maxSpeakers = provider.supportsMultiSpeaker ? 2 : 1;
+		const chunks: SpeechChunk[] = [];
+		let lines: TextRange[] = [];
+		let speakers = new Set<string>();
+
+		const flush = () => {
+			if (lines.length > 0) {
+				chunks.push(this.buildDialogueChunk(text, lines, speakers, speakerVoices));
+			}
+			lines = [];
+			speakers = new Set<string>();
+		};
+
+		for (const line of splitRanges(text, { start: 0, end: text.length }, /\n/)) {
+			const match = text.slice(line.start, line.end).match(SPEAKER_LINE_PATTERN);
+			const speaker = match && speakerVoices[match[1]] ? match[1] : null;
+
+			if (line.end - line.start > maxLength) {
+				// Line is too long on its own, split it and read every piece in the speaker's voice
+				flush();
+				const bodyStart = match && speaker ? line.end - match[2].length : line.start;
+				for (const piece of this.splitIntoChunks(text, { start: bodyStart, end: line.end })) {
+					chunks.push(speaker ? { ...piece, voiceName: speakerVoices[speaker] } : piece);
+				}
+				continue;
+			}
+
+			const isNewSpeaker = speaker !== null && !speakers.has(speaker);
+			if (lines.length > 0 && ((isNewSpeaker && speakers.size >= maxSpeakers) || line.end - lines[0].start > maxLength)) {
+				flush();
+			}
+
+			lines.push(line);
+			if (speaker) {
+				speakers.add(speaker);
+			}
+		}
+		flush();
+
+		return chunks;
+	}
+
+	buildDialogueChunk(text: string, lines: TextRange[], speakers: Set<string>, speakerVoices: Record<string, string>): SpeechChunk {
+		const start = lines[0].start;
+		const end = lines[lines.length - 1].end;
+		const lineTexts = lines.map(line => text.slice(line.start, line.end));
+
+		if (speakers.size === 2) {
+			const chunkVoices: Record<string, string> = {};
+			speakers.forEach(speaker => chunkVoices[speaker] = speakerVoices[speaker]);
+			return { text: lineTexts.join('\n'), start, end, speakerVoices: chunkVoices };
+		}
+
+		if (speakers.size === 1) {
+			// Only one speaker talks, read it as a single voice without the labels
+			const speaker = Array.from(speakers)[0];
+			const chunkText = lineTexts.map(line => {
+				const match = line.match(SPEAKER_LINE_PATTERN);
+				return match && match[1] === speaker ? match[2] : line;
+			}).join('\n');
+			return { text: chunkText, start, end, voiceName: speakerVoices[speaker] };
+		}
+
+		return { text: lineTexts.join('\n'), start, end };
+	}
+
+	/**
+	 * Splits text (or a range of it) into chunks of at most maxChunkCharacters,
+	 * preferring paragraph boundaries, then sentence boundaries, and only then
+	 * word boundaries. Each chunk is a slice of the original text.
+	 */
+	splitIntoChunks(text: string, range: TextRange = { start: 0, end: text.length }): SpeechChunk[] {
+		const maxLength = this.getMaxChunkLength();
+		const pieces: TextRange[] = [];
+
+		for (const paragraph of splitRanges(text, range, /\n\s*\n/)) {
+			if (paragraph.end - paragraph.start <= maxLength) {
+				pieces.push(paragraph);
+				continue;
+			}
+
+			// Paragraph is too long on its own, fall back to sentences
+			for (const sentence of splitRanges(text, paragraph, SENTENCE_BOUNDARY)) {
+				if (sentence.end - sentence.start <= maxLength) {
+					pieces.push(sentence);
+					continue;
+				}
+
+				// Sentence is too long on its own, fall back to words
+				for (const word of splitRanges(text, sentence, /\s+/)) {
+					for (let start = word.start; start < word.end; start += maxLength) {
+						pieces.push({ start, end: Math.min(word.end, start + maxLength) });
+					}
+				}
+			}
+		}
+
+		const chunks: SpeechChunk[] = [];
+		for (const piece of pieces) {
+			const current = chunks[chunks.length - 1];
+			if (current && piece.end - current.start <= maxLength) {
+				current.end = piece.end;
+			} else {
+				chunks.push({ text: '', start: piece.start, end: piece.end });
+			}
+		}
+		chunks.forEach(chunk => chunk.text = text.slice(chunk.start, chunk.end));
+		return chunks;
+	}
+
+	pcmToWav(pcmBuffer: ArrayBuffer, sampleRate: number = 24000): ArrayBuffer {
+		const pcmData = new Uint8Array(pcmBuffer);
+		const channels = 1;
+		const bytesPerSample = 2;
+		const numSamples = pcmData.length / bytesPerSample;
+		
+		// WAV file header
+		const headerLength = 44;
+		const wav = new Uint8Array(headerLength + pcmData.length);
+		
+		// Helper to write integers to the buffer
+		const writeInt32 = (offset: number, value: number) => {
+			wav[offset] = value & 0xff;
+			wav[offset + 1] = (value >> 8) & 0xff;
+			wav[offset + 2] = (value >> 16) & 0xff;
+			wav[offset + 3] = (value >> 24) & 0xff;
+		};
+		
+		const writeInt16 = (offset: number, value: number) => {
+			wav[offset] = value & 0xff;
+			wav[offset + 1] = (value >> 8) & 0xff;
+		};
+		
+		// RIFF header
+		wav.set([0x52, 0x49, 0x46, 0x46], 0); // "RIFF"
+		writeInt32(4, 36 + pcmData.length); // File size - 8
+		wav.set([0x57, 0x41, 0x56, 0x45], 8); // "WAVE"
+		
+		// fmt sub-chunk
+		wav.set([0x66, 0x6d, 0x74, 0x20], 12); // "fmt "
+		writeInt32(16, 16); // Sub-chunk size (16 for PCM)
+		writeInt16(20, 1); // Audio format (1 = PCM)
+		writeInt16(22, channels); // Number of channels
+		writeInt32(24, sampleRate); // Sample rate
+		writeInt32(28, sampleRate * channels * bytesPerSample); // Byte rate
+		writeInt16(32, channels * bytesPerSample); // Block align
+		writeInt16(34, 16); // Bits per sample
+		
+		// data sub-chunk
+		wav.set([0x64, 0x61, 0x74, 0x61], 36); // "data"
+		writeInt32(40, pcmData.length); // Sub-chunk size
+		
+		// Copy PCM data
+		wav.set(pcmData, headerLength);
+		
+		return wav.buffer;
+	}
+
+	/**
+	 * Returns audio for a chunk, from the cache when the same text was already
+	 * synthesised by the same provider with the same model, voices and style.
+	 * key is the cache key.
+	 */
+	async synthesizeChunk(chunk: SpeechChunk, overrides: NoteOverrides = {}, signal?: AbortSignal): Promise<SynthesizedAudio & { key: string }> {
+		const provider = this.getProvider(overrides.provider);
+		const { request, key } = await this.prepareChunkRequest(chunk, overrides);
+
+		if (this.settings.cacheEnabled) {
+			const cached = await this.audioCache.get(key);
+			if (cached) {
+				console.log('[Gemini TTS] ✓ Using cached audio for', chunk.text.length, 'characters');
+				return { ...cached, key };
+			}
+		}
+
+		await this.usage.checkBudget(estimateSpeechCost(provider, request.modelName, request.text.length) || 0);
+		console.log('[Gemini TTS] Requesting audio from', provider.name, 'for', request.text.length, 'characters');
+		const audio = await provider.synthesize(request, signal);
+		const audioSeconds = getAudioDuration(audio.buffer) ?? request.text.length / SPOKEN_CHARACTERS_PER_SECOND;
+		await this.usage.record(provider, request.modelName, request.text.length, audioSeconds);
+		if (this.settings.cacheEnabled) {
+			await this.audioCache.put(key, audio);
+		}
+		return { ...audio, key };
+	}
+
+	/**
+	 * Synthesises the preview sentence in a voice with the current style.
+	 * Previews are always cached, so comparing voices again costs nothing.
+	 */
+	async previewVoice(voiceName: string): Promise<SynthesizedAudio> {
+		const chunk: SpeechChunk = { text: VOICE_PREVIEW_TEXT, start: 0, end: VOICE_PREVIEW_TEXT.length, voiceName };
+		const { key } = await this.prepareChunkRequest(chunk);
+		const cached = await this.audioCache.get(key);
+		if (cached) return cached;
+
+		const audio = await this.synthesizeChunk(chunk);
+		if (!this.settings.cacheEnabled) {
+			await this.audioCache.put(key, audio);
+		}
+		return audio;
+	}
+
+	/**
+	 * Returns the Gemini models that can generate speech, falling back to the
+	 * built-in list when they cannot be fetched, for example when offline.
+	 */
+	async getSpeechModels(): Promise<string[]> {
+		if (this.speechModels) return this.speechModels;
+		try {
+			const models = await this.providers.gemini.listSpeechModels();
+			if (models.length > 0) {
+				this.speechModels = models;
+				return models;
+			}
+		} catch (error) {
+			console.log('[Gemini TTS] Could not fetch speech models, using the built-in list:', error.message);
+		}
+		return GEMINI_SPEECH_MODELS;
+	}
+
+	/**
+	 * Builds the speech request for a chunk and its cache key.
+	 */
+	async prepareChunkRequest(chunk: SpeechChunk, overrides: NoteOverrides = {}): Promise<{ request: SpeechRequest; key: string }> {
+		const provider = this.getProvider(overrides.provider);
+		const request: SpeechRequest = {
+			text: chunk.text,
+			modelName: overrides.modelName || provider.getModelName(),
+			voiceName: this.resolveVoiceName(chunk.voiceName || overrides.voiceName || provider.getDefaultVoice(), provider),
+			stylePrompt: overrides.stylePrompt ?? this.settings.stylePrompt,
+			speakerVoices: chunk.speakerVoices,
+			apiKeyId: overrides.apiKeyId
+		};
+		const key = await this.audioCache.hash({
+			provider: provider.id,
+			endpoint: provider.getEndpoint(),
+			text: request.text,
+			modelName: request.modelName,
+			voiceName: request.voiceName,
+			stylePrompt: request.stylePrompt,
+			speakerVoices: request.speakerVoices || null
+		});
+		return { request, key };
+	}
+
+	/**
+	 * Shows a Notice explaining an error from generating audio, with a hint on
+	 * how to fix it where there is one.
+	 */
+	showErrorNotice(error: Error) {
+		if (error instanceof RequestCancelledError) return;
+
+		const provider = this.getProvider();
+		const voiceHint = provider.supportsMultiSpeaker
+			? 'Pick one from the list in the settings.'
+			: 'Check the voice names your server provides.';
+
+		if (error instanceof InvalidApiKeyError) {
+			new Notice(`Gemini TTS: ${provider.name} rejected your API key. Check it in the plugin settings.\n${error.message}`, 10000);
+		} else if (error instanceof QuotaExceededError) {
+			new Notice(`Gemini TTS: ${provider.name} quota exceeded. Wait a moment or check your plan's limits.\n${error.message}`, 10000);
+		} else if (error instanceof SafetyBlockedError) {
+			new Notice(`Gemini TTS: ${provider.name} refused to read this text (${error.reason}). Try a different passage.`, 10000);
+		} else if (error instanceof UnknownVoiceError) {
+			new Notice(`Gemini TTS: ${provider.name} did not recognise the voice. ${voiceHint}\n${error.message}`, 10000);
+		} else if (error instanceof RequestTimeoutError) {
+			new Notice(`Gemini TTS: ${error.message}. Try a smaller chunk size or a longer timeout.`, 10000);
+		} else if (error instanceof ProviderUnreachableError) {
+			new Notice(`Gemini TTS: ${error.message}. Check that the server is running and the URL in the settings is right.`, 10000);
+		} else if (error instanceof BudgetExceededError) {
+			new Notice(`Gemini TTS: ${error.message}. Cached audio still plays; raise the cap in the settings to generate more.`, 10000);
+		} else {
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+
+	async readActiveNote() {
+		// Stop any currently playing audio
+		this.stopPlayback();
+
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!activeView) {
+			new Notice('No active note found');
+			return;
+		}
+
+		const noteContent = activeView.editor.getValue();
+		if (!noteContent || noteContent.trim().length === 0) {
+			new Notice('Note is empty');
+			return;
+		}
+
+		if (activeView.file) {
+			await this.readNote(activeView.file, noteContent, activeView.editor);
+		} else {
+			await this.readMarkdown(noteContent, noteContent, activeView.editor);
+		}
+	}
+
+	async readSelection(editor: Editor) {
+		const selection = editor.getSelection();
+		if (!selection || selection.trim().length === 0) {
+			new Notice('No text selected');
+			return;
+		}
+
+		this.stopPlayback();
+		await this.readMarkdown(selection, editor.getValue(), editor, editor.posToOffset(editor.getCursor('from')));
+	}
+
+	async readFromCursor(editor: Editor) {
+		const lastLine = editor.lastLine();
+		const end: EditorPosition = { line: lastLine, ch: editor.getLine(lastLine).length };
+		const cursor = editor.getCursor();
+		const text = editor.getRange(cursor, end);
+		if (!text || text.trim().length === 0) {
+			new Notice('Nothing to read after the cursor');
+			return;
+		}
+
+		this.stopPlayback();
+		await this.readMarkdown(text, editor.getValue(), editor, editor.posToOffset(cursor));
+	}
+
+	async readHeadingSection(editor: Editor) {
+		const range = this.getHeadingSectionRange(editor);
+		if (!range) {
+			new Notice('Cursor is not under a heading');
+			return;
+		}
+
+		this.stopPlayback();
+		await this.readMarkdown(editor.getRange(range.from, range.to), editor.getValue(), editor, editor.posToOffset(range.from));
+	}
+
+	/**
+	 * Finds the section of the heading the cursor is in, from the heading line
+	 * up to the next heading of the same or a higher level.
+	 */
+	getHeadingSectionRange(editor: Editor): { from: EditorPosition; to: EditorPosition } | null {
+		const cursorLine = editor.getCursor().line;
+		const lastLine = editor.lastLine();
+
+		// Track fenced code blocks so "# comments" inside them are not taken for headings
+		const headingLevels: (number | null)[] = [];
+		let inCodeBlock = false;
+		for (let line = 0; line <= lastLine; line++) {
+			const text = editor.getLine(line);
+			if (/^\s*(```|~~~)/.test(text)) {
+				inCodeBlock = !inCodeBlock;
+				headingLevels.push(null);
+				continue;
+			}
+			const match = !inCodeBlock ? text.match(/^(#{1,6})\s+/) : null;
+			headingLevels.push(match ? match[1].length : null);
+		}
+
+		let startLine = -1;
+		for (let line = cursorLine; line >= 0; line--) {
+			if (headingLevels[line] !== null) {
+				startLine = line;
+				break;
+			}
+		}
+		if (startLine === -1) return null;
+
+		const level = headingLevels[startLine] as number;
+		let endLine = lastLine + 1;
+		for (let line = startLine + 1; line <= lastLine; line++) {
+			const lineLevel = headingLevels[line];
+			if (lineLevel !== null && lineLevel <= level) {
+				endLine = line;
+				break;
+			}
+		}
+
+		const to: EditorPosition = endLine > lastLine
+			? { line: lastLine, ch: editor.getLine(lastLine).length }
+			: { line: endLine, ch: 0 };
+		return { from: { line: startLine, ch: 0 }, to };
+	}
+
+	/**
+	 * Shared path for every read command: cleans the markdown, applies the
+	 * note's frontmatter overrides and starts chunked playback. When an editor
+	 * is given, sourceOffset is where the markdown starts in it and the text is
+	 * highlighted while it is read. When trackFrom is given, the playback
+	 * position in the note is remembered, counting from trackFrom seconds.
+	 * file picks the reading profile; audioFile is the note the audio is saved
+	 * for, the same note unless given.
+	 */
+	async readMarkdown(
+		markdown: string,
+		noteContent: string,
+		editor?: Editor,
+		sourceOffset: number = 0,
+		file: TFile | null = this.app.workspace.getActiveFile(),
+		trackFrom?: number,
+		audioFile: TFile | null = file
+	) {
+		const overrides = this.getReadingOverrides(file, noteContent);
+		const spoken = await this.prepareSpeech(markdown, sourceOffset, overrides);
+		if (!spoken) {
+			new Notice('No readable text found in note');
+			return;
+		}
+
+		let highlight: { editorView: EditorView; segments: ReadingSegment[] } | undefined;
+		const editorView = (editor as unknown as { cm?: EditorView } | undefined)?.cm;
+		if (editorView && this.settings.highlightWhileReading) {
+			highlight = { editorView, segments: this.buildReadingSegments(spoken) };
+		}
+
+		const tracking = file && trackFrom !== undefined ? { path: file.path, startTime: trackFrom, spoken } : undefined;
+		this.currentAudioFile = audioFile;
+		await this.playChunkedText(spoken.text, overrides, highlight, tracking);
+	}
+
+	/**
+	 * Rewrites cleaned note text with the Gemini text model: a summary of the
+	 * given length, or a translation into the given language.
+	 */
+	async writeScript(text: string, mode: ScriptMode, option: string, signal?: AbortSignal): Promise<string> {
+		let prompt: string;
+		if (mode === 'summary') {
+			const words = SUMMARY_LENGTHS.find(([length]) => length === option)?.[2] || 150;
+			prompt = `Summarise the following note as a script to be read aloud, in about ${words} words. ` +
+				'Write plain flowing prose without headings, lists or markdown, and keep names, numbers and conclusions accurate. ' +
+				'Reply with the script only.';
+		} else {
+			prompt = `Translate the following text into ${option}. Keep the meaning, tone and paragraph breaks. ` +
+				'Reply with the translation only, as plain text without markdown.';
+		}
+
+		const modelName = this.settings.textModelName.trim() || DEFAULT_SETTINGS.textModelName;
+		console.log('[Gemini TTS] Writing', mode, 'with', modelName, 'for', text.length, 'characters');
+		return this.providers.gemini.generateText(`${prompt}\n\n${text}`, modelName, signal);
+	}
+
+	/**
+	 * Opens the summary or translation preview for the active note.
+	 */
+	async previewScript(mode: ScriptMode) {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!activeView || !activeView.file) {
+			new Notice('No active note found');
+			return;
+		}
+		new ScriptPreviewModal(this.app, this, activeView.file, activeView.editor.getValue(), mode).open();
+	}
+
+	/**
+	 * Cleans markdown and applies the pronunciation lexicon. Returns null when
+	 * nothing readable is left.
+	 */
+	async prepareSpeech(markdown: string, sourceOffset: number = 0, overrides: NoteOverrides = {}): Promise<MappedText | null> {
+		const cleaned = this.cleanMarkdown(markdown, sourceOffset, overrides);
+		if (!cleaned.text || cleaned.text.trim().length === 0) {
+			return null;
+		}
+		return this.applyLexicon(cleaned);
+	}
+
+	/**
+	 * Reads a whole note, highlighting it when it is open in an editor. See
+	 * readNote for resume.
+	 */
+	async readFile(file: TFile, resume?: boolean) {
+		const view = this.app.workspace.getLeavesOfType('markdown')
+			.map(leaf => leaf.view)
+			.find((view): view is MarkdownView => view instanceof MarkdownView && view.file === file);
+		const noteContent = view ? view.editor.getValue() : await this.app.vault.cachedRead(file);
+		if (!noteContent.trim()) {
+			new Notice(`${file.basename} is empty`);
+			return;
+		}
+		await this.readNote(file, noteContent, view?.editor, resume);
+	}
+
+	/**
+	 * Reads a whole note and remembers how far playback got. When a position
+	 * was saved earlier, resume says whether to continue from it; without it
+	 * the user is asked.
+	 */
+	async readNote(file: TFile, noteContent: string, editor?: Editor, resume?: boolean) {
+		const saved = this.getPlaybackPosition(file.path);
+		if (saved && resume === undefined) {
+			new ResumeModal(this.app, file.basename, saved, choice => this.readNote(file, noteContent, editor, choice)).open();
+			return;
+		}
+
+		if (saved && resume && saved.offset !== undefined && saved.offset < noteContent.length) {
+			// Start at the beginning of the line reading stopped in, so its markdown parses as before
+			const start = noteContent.lastIndexOf('\n', saved.offset - 1) + 1;
+			new Notice(`Resuming ${file.basename} from ${formatTime(saved.position)}`);
+			await this.readMarkdown(noteContent.slice(start), noteContent, editor, start, file, saved.position);
+			return;
+		}
+
+		await this.readMarkdown(noteContent, noteContent, editor, 0, file, 0);
+	}
+
+	/**
+	 * Generates the audio of a note into the cache without playing it.
+	 */
+	async cacheNoteAudio(file: TFile, signal?: AbortSignal) {
+		const noteContent = await this.app.vault.cachedRead(file);
+		const overrides = this.getReadingOverrides(file, noteContent);
+		const spoken = await this.prepareSpeech(noteContent, 0, overrides);
+		if (!spoken) return;
+
+		for (const chunk of this.buildSpeechChunks(spoken.text, overrides)) {
+			await this.synthesizeChunk(chunk, overrides, signal);
+		}
+	}
+
+	/**
+	 * Returns the voices that read the chunks, in order of first use.
+	 */
+	getChunkVoices(chunks: SpeechChunk[], overrides: NoteOverrides = {}): string[] {
+		const provider = this.getProvider(overrides.provider);
+		const defaultVoice = overrides.voiceName || provider.getDefaultVoice();
+		const voices = new Set<string>();
+		for (const chunk of chunks) {
+			const chunkVoices = chunk.speakerVoices ? Object.values(chunk.speakerVoices) : [chunk.voiceName || defaultVoice];
+			chunkVoices.forEach(voice => voices.add(this.resolveVoiceName(voice, provider)));
+		}
+		return [...voices];
+	}
+
+	/**
+	 * Generates audio chunk by chunk and starts playback as soon as the first
+	 * chunk is ready. Once every chunk is generated, the stitched audio becomes
+	 * the current audio blob.
+	 */
+	async playChunkedText(
+		text: string,
+		overrides: NoteOverrides = {},
+		highlight?: { editorView: EditorView; segments: ReadingSegment[] },
+		tracking?: { path: string; startTime: number; spoken: MappedText }
+	) {
+		const chunks = this.buildSpeechChunks(text, overrides);
+		const player = new ChunkedAudioPlayer();
+		player.volume = this.settings.playbackVolume;
+		player.playbackRate = this.settings.playbackRate;
+		this.currentReading = { text, chunks, player };
+		this.mediaSession.attach(player, this.currentAudioFile?.basename || 'Gemini TTS');
+		this.stopTrackingPosition();
+		this.generationController?.abort();
+		const controller = new AbortController();
+		this.generationController = controller;
+		this.currentAudio = player;
+		this.currentAudioBlob = null;
+		this.currentAudioKey = null;
+		this.currentAudioVoices = this.getChunkVoices(chunks, overrides).join(', ');
+		this.isPlaying = false;
+		this.isPaused = false;
+
+		this.stopReadingHighlight();
+		if (highlight) {
+			this.readingHighlighter = new ReadingHighlighter(highlight.editorView, highlight.segments, chunks, player);
+			this.readingHighlighter.start();
+		}
+
+		if (tracking) {
+			const { spoken } = tracking;
+			this.trackPosition(tracking.path, player, tracking.startTime, time => {
+				const position = textPositionAtTime(chunks, player, time);
+				return position === null ? undefined : spoken.sourceRange(position, position + 1).from;
+			});
+		}
+
+		const cleanupAudio = () => {
+			this.isPlaying = false;
+			this.stopReadingHighlight();
+			if (this.sidebarView) {
+				this.sidebarView.updatePlayerDisplay(false);
+			}
+		};
+
+		const onEnded = this.onPlaybackEnded;
+		player.addEventListener('ended', () => {
+			this.statusBarItem.setText('Gemini TTS: Stopped');
+			cleanupAudio();
+			if (this.stopAtEndOfNote()) return;
+			if (onEnded && this.onPlaybackEnded === onEnded) {
+				onEnded();
+			}
+		});
+
+		const chunkKeys: string[] = [];
+		let chunkIndex = 0;
+		try {
+			// Update status bar
+			this.statusBarItem.setText('Gemini TTS: Generating...');
+			new Notice(chunks.length > 1 ? `Generating audio (${chunks.length} parts)...` : 'Generating audio...');
+			console.log('[Gemini TTS] Split text into', chunks.length, 'chunks');
+
+			for (; chunkIndex < chunks.length; chunkIndex++) {
+				if (chunkIndex > 0 && !this.isPaused) {
+					this.statusBarItem.setText(`Gemini TTS: Playing (generating ${chunkIndex + 1}/${chunks.length})...`);
+				}
+
+				// Fetch audio from the cache or the Gemini API
+				const { buffer, sampleRate, key } = await this.synthesizeChunk(chunks[chunkIndex], overrides, controller.signal);
+				chunkKeys.push(key);
+
+				// Playback was stopped or replaced while this chunk was generating
+				if (this.currentAudio !== player) return;
+
+				await player.appendChunk(buffer, sampleRate);
+
+				if (chunkIndex === 0) {
+					this.statusBarItem.setText('Gemini TTS: Playing...');
+					await player.play();
+					this.isPlaying = true;
+					this.isPaused = false;
+					new Notice('Playing audio');
+
+					// Update sidebar player display
+					if (this.sidebarView) {
+						this.sidebarView.updatePlayerDisplay(true);
+					}
+				}
+			}
+
+			player.markComplete();
+			if (this.isPlaying) {
+				this.statusBarItem.setText('Gemini TTS: Playing...');
+			}
+
+			// Stitch all chunks into a single WAV file
+			const { pcm, sampleRate } = player.toPcm();
+			this.currentAudioBlob = new Blob([this.pcmToWav(pcm, sampleRate)], { type: 'audio/wav' });
+			this.currentAudioKey = await this.audioCache.hash(chunkKeys);
+			console.log('[Gemini TTS] Audio generated:', { size: this.currentAudioBlob.size, type: this.currentAudioBlob.type });
+
+			// Auto-save audio when enabled in settings
+			if (this.settings.saveAudioFiles) {
+				await this.saveCurrentAudio();
+			}
+		} catch (error) {
+			console.error('[Gemini TTS] Error:', error.message);
+			if (this.currentAudio !== player) return;
+			this.showErrorNotice(error);
+
+			if (chunkIndex > 0) {
+				// Keep playing what was generated before the failure
+				player.markComplete();
+			} else {
+				this.statusBarItem.setText('Gemini TTS: Error');
+				player.close();
+				this.currentAudio = null;
+				cleanupAudio();
+			}
+		}
+	}
+
+	getPlaybackPosition(path: string): PlaybackPosition | null {
+		return this.settings.playbackPositions[path] || null;
+	}
+
+	/**
+	 * Remembers the playback position of audio under path as it plays.
+	 * startTime is where the audio starts within the whole reading, and
+	 * offsetAt maps a time in the audio to an offset in the note.
+	 */
+	trackPosition(
+		path: string,
+		audio: HTMLAudioElement | ChunkedAudioPlayer,
+		startTime: number = 0,
+		offsetAt?: (time: number) => number | undefined
+	) {
+		this.positionTracker = { path, audio, startTime, offsetAt };
+		this.positionSavedAt = Date.now();
+
+		audio.addEventListener('timeupdate', () => {
+			if (Date.now() - this.positionSavedAt > POSITION_SAVE_INTERVAL) {
+				this.recordPosition(audio);
+			}
+		});
+		audio.addEventListener('pause', () => this.recordPosition(audio));
+		audio.addEventListener('ended', () => {
+			// Finished, nothing to resume
+			if (this.positionTracker?.audio !== audio) return;
+			this.positionTracker = null;
+			this.forgetPlaybackPosition(path);
+		});
+	}
+
+	/**
+	 * Saves where the tracked audio is. Positions in the first few seconds are
+	 * not worth resuming and are dropped instead.
+	 */
+	recordPosition(audio?: HTMLAudioElement | ChunkedAudioPlayer) {
+		const tracker = this.positionTracker;
+		if (!tracker || (audio && tracker.audio !== audio)) return;
+
+		this.positionSavedAt = Date.now();
+		const time = tracker.audio.currentTime;
+		const position = tracker.startTime + time;
+		if (position < MIN_RESUME_SECONDS) {
+			this.forgetPlaybackPosition(tracker.path);
+			return;
+		}
+
+		this.settings.playbackPositions[tracker.path] = {
+			position,
+			duration: tracker.startTime + (tracker.audio.duration || 0),
+			offset: tracker.offsetAt?.(time),
+			updatedAt: Date.now()
+		};
+		this.saveSettings();
+		this.sidebarView?.renderContinueListening();
+	}
+
+	/**
+	 * Saves the position of the tracked audio and stops tracking it.
+	 */
+	stopTrackingPosition() {
+		this.recordPosition();
+		this.positionTracker = null;
+	}
+
+	forgetPlaybackPosition(path: string) {
+		if (!this.settings.playbackPositions[path]) return;
+		delete this.settings.playbackPositions[path];
+		this.saveSettings();
+		this.sidebarView?.renderContinueListening();
+	}
+
+	renamePlaybackPosition(oldPath: string, newPath: string) {
+		const saved = this.settings.playbackPositions[oldPath];
+		if (!saved) return;
+		delete this.settings.playbackPositions[oldPath];
+		this.settings.playbackPositions[newPath] = saved;
+		this.saveSettings();
+		this.sidebarView?.renderContinueListening();
+	}
+
+	stopReadingHighlight() {
+		if (this.readingHighlighter) {
+			this.readingHighlighter.stop();
+			this.readingHighlighter = null;
+		}
+	}
+
+	stopPlayback() {
+		this.onPlaybackEnded = null;
+		this.mediaSession.detach();
+		this.stopTrackingPosition();
+		this.stopReadingHighlight();
+		if (this.generationController) {
+			this.generationController.abort();
+			this.generationController = null;
+		}
+		if (this.currentAudio) {
+			this.currentAudio.pause();
+			this.currentAudio.currentTime = 0;
+			if (this.currentAudio instanceof ChunkedAudioPlayer) {
+				this.currentAudio.close();
+			}
+			this.currentAudio = null;
+			this.isPlaying = false;
+			this.isPaused = false;
+			this.statusBarItem.setText('Gemini TTS: Stopped');
+			new Notice('Playback stopped');
+			
+			// Update sidebar to show no audio playing
+			if (this.sidebarView) {
+				this.sidebarView.updatePlayerDisplay(false);
+			}
+		}
+	}
+
+	togglePauseResume() {
+		if (!this.currentAudio) {
+			new Notice('No audio is currently loaded');
+			return;
+		}
+
+		if (this.isPaused) {
+			this.currentAudio.play();
+			this.isPaused = false;
+			this.isPlaying = true;
+			this.statusBarItem.setText('Gemini TTS: Playing...');
+			new Notice('Playback resumed');
+		} else if (this.isPlaying) {
+			this.currentAudio.pause();
+			this.isPaused = true;
+			this.isPlaying = false;
+			this.statusBarItem.setText('Gemini TTS: Paused');
+			new Notice('Playback paused');
+		}
+	}
+
+	setPlaybackRate(rate: number) {
+		rate = Math.max(PLAYBACK_RATES[0], Math.min(PLAYBACK_RATES[PLAYBACK_RATES.length - 1], rate));
+		this.settings.playbackRate = rate;
+		this.saveSettings();
+		if (this.currentAudio) {
+			this.currentAudio.playbackRate = rate;
+		}
+	}
+
+	/**
+	 * Steps through PLAYBACK_RATES, faster for a positive direction.
+	 */
+	changePlaybackRate(direction: number) {
+		const current = this.settings.playbackRate;
+		const rate = direction > 0
+			? PLAYBACK_RATES.find(rate => rate > current)
+			: PLAYBACK_RATES.slice().reverse().find(rate => rate < current);
+		if (rate !== undefined) {
+			this.setPlaybackRate(rate);
+		}
+		new Notice(`Playback speed: ${this.settings.playbackRate}x`);
+	}
+
+	setVolume(volume: number) {
+		volume = Math.round(Math.max(0, Math.min(1, volume)) * 100) / 100;
+		this.settings.playbackVolume = volume;
+		this.saveSettings();
+		if (this.currentAudio) {
+			this.currentAudio.volume = volume;
+		}
+	}
+
+	skip(seconds: number) {
+		if (!this.currentAudio) {
+			new Notice('No audio is currently loaded');
+			return;
+		}
+		const duration = this.currentAudio.duration || 0;
+		this.currentAudio.currentTime = Math.max(0, Math.min(this.currentAudio.currentTime + seconds, duration));
+	}
+
+	/**
+	 * Jumps to the start of the next paragraph, or back to the start of the
+	 * current one. Going back within the first seconds of a paragraph goes to
+	 * the one before it.
+	 */
+	jumpParagraph(direction: 1 | -1) {
+		const reading = this.currentReading;
+		if (!reading || this.currentAudio !== reading.player) {
+			new Notice('Paragraph jumps work while a note is being read');
+			return;
+		}
+
+		const { text, chunks, player } = reading;
+		const starts = [0];
+		for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+			if (i + 1 < text.length && text[i + 1] !== '\n') starts.push(i + 1);
+		}
+
+		const position = textPositionAtTime(chunks, player, player.currentTime) ?? 0;
+		let index = starts.length - 1;
+		while (index > 0 && starts[index] > position) index--;
+
+		if (direction > 0) {
+			index++;
+		} else {
+			const paragraphTime = textTimeAt(chunks, player, starts[index]);
+			if (index > 0 && paragraphTime !== null && player.currentTime - paragraphTime < 3) index--;
+		}
+
+		if (index >= starts.length) {
+			new Notice('This is the last paragraph');
+			return;
+		}
+		const time = textTimeAt(chunks, player, starts[index]);
+		if (time === null) {
+			new Notice('That part has not been generated yet');
+			return;
+		}
+		player.currentTime = time;
+	}
+
+	/**
+	 * Pauses playback after minutes, or at the end of the current note when
+	 * minutes is 0. Replaces any timer that is already set.
+	 */
+	setSleepTimer(minutes: number) {
+		this.cancelSleepTimer();
+		if (minutes === 0) {
+			this.sleepAtEndOfNote = true;
+			new Notice('Sleep timer: playback stops at the end of this note');
+		} else {
+			this.sleepTimerEndsAt = Date.now() + minutes * 60000;
+			this.sleepTimer = window.setTimeout(() => {
+				this.sleepTimer = null;
+				this.sleepTimerEndsAt = null;
+				if (this.currentAudio && this.isPlaying) {
+					this.currentAudio.pause();
+					this.isPaused = true;
+					this.isPlaying = false;
+					this.statusBarItem.setText('Gemini TTS: Paused');
+				}
+				this.sidebarView?.updateSleepTimerDisplay();
+				new Notice('Sleep timer: playback paused');
+			}, minutes * 60000);
+			new Notice(`Sleep timer: playback pauses in ${minutes} minutes`);
+		}
+		this.sidebarView?.updateSleepTimerDisplay();
+	}
+
+	/**
+	 * Ends an "end of note" sleep timer once a note or audio file has played
+	 * to the end. Returns whether it did, in which case playback should not
+	 * move on to anything else.
+	 */
+	stopAtEndOfNote(): boolean {
+		if (!this.sleepAtEndOfNote) return false;
+		this.cancelSleepTimer();
+		new Notice('Sleep timer: stopped at the end of the note');
+		return true;
+	}
+
+	cancelSleepTimer() {
+		if (this.sleepTimer !== null) {
+			window.clearTimeout(this.sleepTimer);
+		}
+		this.sleepTimer = null;
+		this.sleepTimerEndsAt = null;
+		this.sleepAtEndOfNote = false;
+		this.sidebarView?.updateSleepTimerDisplay();
+	}
+
+	async saveCurrentAudio() {
+		if (!this.currentAudioBlob) {
+			new Notice('No audio available to save');
+			return;
+		}
+
+		try {
+			// Skip saving when this exact reading is already in the vault
+			const savedPath = this.currentAudioKey ? this.audioCache.getSavedFile(this.currentAudioKey) : null;
+			if (savedPath && await this.app.vault.adapter.exists(savedPath)) {
+				new Notice(`Audio already saved: ${savedPath.split('/').pop()}`);
+				return;
+			}
+
+			const fullPath = await this.saveAudio(this.currentAudioBlob, this.currentAudioFile, {
+				key: this.currentAudioKey,
+				voices: this.currentAudioVoices,
+				duration: this.currentAudio instanceof ChunkedAudioPlayer ? this.currentAudio.duration : undefined
+			});
+
+			// Refresh sidebar audio list
+			if (this.sidebarView) {
+				await this.sidebarView.refreshAudioList();
+			}
+
+			new Notice(`Audio saved: ${fullPath.split('/').pop()}`);
+		} catch (error) {
+			new Notice(`Failed to save audio: ${error.message}`);
+			console.error('Save audio error:', error);
+		}
+	}
+
+	/**
+	 * Saves the WAV audio of a reading to the vault in the format and place
+	 * chosen in settings, records it in the library, links it from its note
+	 * and applies the retention limits. Returns the saved file's path.
+	 */
+	async saveAudio(wavBlob: Blob, sourceFile: TFile | null, details: { key: string | null; voices: string; duration?: number }): Promise<string> {
+		const fileName = sourceFile ? sourceFile.basename : 'audio';
+		const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+		const tags: AudioTags = {
+			title: sourceFile ? sourceFile.basename : 'Audio',
+			artist: details.voices,
+			date: new Date().toISOString().slice(0, 10),
+			source: sourceFile ? sourceFile.path : ''
+		};
+		const { data, extension } = await this.encodeAudio(wavBlob, tags);
+		const audioFileName = `${fileName}_${timestamp}.${extension}`;
+
+		// Determine save location from the storage setting
+		const folderPath = this.library.getFolder(sourceFile);
+
+		// Ensure the folder exists
+		if (folderPath && !await this.app.vault.adapter.exists(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+
+		// Save the file
+		const fullPath = folderPath ? `${folderPath}/${audioFileName}` : audioFileName;
+		await this.app.vault.createBinary(fullPath, data);
+		if (details.key) {
+			await this.audioCache.setSavedFile(details.key, fullPath);
+		}
+		await this.library.record(fullPath, {
+			notePath: sourceFile ? sourceFile.path : '',
+			voices: details.voices,
+			duration: details.duration
+		});
+		if (sourceFile && sourceFile.extension === 'md' && this.settings.audioLinkMode !== 'none') {
+			await this.linkAudioInNote(sourceFile, audioFileName);
+		}
+
+		const removed = await this.library.applyRetention();
+		if (removed > 0) {
+			console.log(`[Gemini TTS] Retention removed ${removed} saved audio file(s)`);
+		}
+		return fullPath;
+	}
+
+	/**
+	 * Links saved audio from its note as set in settings, replacing the link
+	 * to audio saved by an earlier reading.
+	 */
+	async linkAudioInNote(note: TFile, audioFileName: string) {
+		const link = `[[${audioFileName}]]`;
+
+		if (this.settings.audioLinkMode === 'frontmatter') {
+			await this.app.fileManager.processFrontMatter(note, frontmatter => {
+				frontmatter['tts-audio'] = link;
+			});
+			return;
+		}
+
+		const embed = `!${link}`;
+		const position = this.settings.audioLinkMode;
+		await this.app.vault.process(note, content => {
+			let replaced = false;
+			const updated = content.replace(SAVED_AUDIO_EMBED_LINE, () => {
+				if (replaced) return '';
+				replaced = true;
+				return embed;
+			});
+			if (replaced) return updated;
+
+			// Match the note's line endings
+			const eol = content.includes('\r\n') ? '\r\n' : '\n';
+			if (position === 'bottom') {
+				return content.replace(/(\r?\n)*$/, '') + `${eol}${eol}${embed}${eol}`;
+			}
+			// Keep frontmatter at the start of the note
+			const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/);
+			const at = frontmatter ? frontmatter[0].length : 0;
+			return `${content.slice(0, at)}${embed}${eol}${eol}${content.slice(at)}`;
+		});
+	}
+
+	/**
+	 * Converts a WAV blob to the export format chosen in settings, with tags.
+	 * Falls back to WAV when this platform cannot encode Opus.
+	 */
+	async encodeAudio(wavBlob: Blob, tags: AudioTags): Promise<{ data: ArrayBuffer; extension: string }> {
+		const wav = await wavBlob.arrayBuffer();
+
+		if (this.settings.audioFormat === 'opus') {
+			// Decoding at 48 kHz resamples the audio to the rate Opus encodes at
+			const context = new OfflineAudioContext(1, 1, OPUS_SAMPLE_RATE);
+			const decoded = await context.decodeAudioData(wav.slice(0));
+			const inputSampleRate = new DataView(wav).getUint32(24, true);
+			const ogg = await encodeOggOpus(decoded.getChannelData(0), inputSampleRate, this.settings.opusBitrate * 1000, tags);
+			if (ogg) {
+				return { data: ogg, extension: 'ogg' };
+			}
+			console.log('[Gemini TTS] Opus encoding is not supported, saving as WAV');
+			new Notice('Opus encoding is not available on this device, saved as WAV');
+		}
+
+		return { data: addWavTags(wav, tags), extension: 'wav' };
+	}
+
+	showAudioPlayer() {
+		// Popup player no longer used - all playback is handled in sidebar
+	}
+
+	hideAudioPlayer() {
+		if (this.audioPlayerView) {
+			this.audioPlayerView.remove();
+			this.audioPlayerView = null;
+		}
+	}
+}
+
+class LexiconEntryModal extends Modal {
+	plugin: GeminiTTSPlugin;
+	entry: LexiconEntry;
+
+	constructor(app: App, plugin: GeminiTTSPlugin, term: string) {
+		super(app);
+		this.plugin = plugin;
+		this.entry = { term, replacement: '', caseSensitive: false, wholeWord: true };
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Add to pronunciation lexicon' });
+
+		new Setting(contentEl)
+			.setName('Term')
+			.addText(text => text
+				.setValue(this.entry.term)
+				.onChange(value => this.entry.term = value)
+			);
+
+		new Setting(contentEl)
+			.setName('Say')
+			.setDesc('How the term should be spoken, e.g. "engine x" for Nginx')
+			.addText(text => {
+				text.onChange(value => this.entry.replacement = value);
+				text.inputEl.addEventListener('keydown', (event) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						this.submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.setName('Case sensitive')
+			.addToggle(toggle => toggle
+				.setValue(!!this.entry.caseSensitive)
+				.onChange(value => this.entry.caseSensitive = value)
+			);
+
+		new Setting(contentEl)
+			.setName('Whole word only')
+			.addToggle(toggle => toggle
+				.setValue(this.entry.wholeWord !== false)
+				.onChange(value => this.entry.wholeWord = value)
+			);
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Add')
+				.setCta()
+				.onClick(() => this.submit())
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	async submit() {
+		if (!this.entry.term.trim() || !this.entry.replacement.trim()) {
+			new Notice('Enter both the term and how to say it');
+			return;
+		}
+		this.close();
+		await this.plugin.addLexiconEntry({
+			...this.entry,
+			term: this.entry.term.trim(),
+			replacement: this.entry.replacement.trim()
+		});
+	}
+}
+
+/**
+ * Asks whether to resume a note or audio file from where it was left, or
+ * start over.
+ */
+class ResumeModal extends Modal {
+	title: string;
+	saved: PlaybackPosition;
+	onChoose: (resume: boolean) => void;
+
+	constructor(app: App, title: string, saved: PlaybackPosition, onChoose: (resume: boolean) => void) {
+		super(app);
+		this.title = title;
+		this.saved = saved;
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: this.title });
+		contentEl.createEl('p', { text: `You stopped listening at ${formatTime(this.saved.position)}.` });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Start over')
+				.onClick(() => this.choose(false))
+			)
+			.addButton(button => button
+				.setButtonText(`Resume from ${formatTime(this.saved.position)}`)
+				.setCta()
+				.onClick(() => this.choose(true))
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private choose(resume: boolean) {
+		this.close();
+		this.onChoose(resume);
+	}
+}
+
+/**
+ * Picks how long until the sleep timer pauses playback.
+ */
+class SleepTimerModal extends FuzzySuggestModal<[number, string]> {
+	plugin: GeminiTTSPlugin;
+
+	constructor(app: App, plugin: GeminiTTSPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.setPlaceholder('Pause playback after...');
+	}
+
+	getItems(): [number, string][] {
+		return SLEEP_TIMER_OPTIONS;
+	}
+
+	getItemText([, label]: [number, string]): string {
+		return label;
+	}
+
+	onChooseItem([minutes]: [number, string]) {
+		this.plugin.setSleepTimer(minutes);
+	}
+}
+
+/**
+ * Picks a reading profile. With allowNone, "No default profile" is offered
+ * first and chosen as null.
+ */
+class ProfileSuggestModal extends FuzzySuggestModal<ReadingProfile | null> {
+	plugin: GeminiTTSPlugin;
+	private onChoose: (profile: ReadingProfile | null) => void;
+	private allowNone: boolean;
+
+	constructor(app: App, plugin: GeminiTTSPlugin, placeholder: string, onChoose: (profile: ReadingProfile | null) => void, allowNone = false) {
+		super(app);
+		this.plugin = plugin;
+		this.onChoose = onChoose;
+		this.allowNone = allowNone;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): (ReadingProfile | null)[] {
+		const profiles = this.plugin.settings.readingProfiles;
+		return this.allowNone ? [null, ...profiles] : profiles;
+	}
+
+	getItemText(profile: ReadingProfile | null): string {
+		if (!profile) return 'No default profile';
+		return profile.id === this.plugin.settings.activeProfileId ? `${profile.name} (active)` : profile.name;
+	}
+
+	onChooseItem(profile: ReadingProfile | null) {
+		this.onChoose(profile);
+	}
+}
+
+/**
+ * Asks whether to keep generating audio past the budget confirmation threshold.
+ * Closing the modal counts as no.
+ */
+class BudgetConfirmModal extends Modal {
+	message: string;
+	onChoose: (confirmed: boolean) => void;
+	private chosen = false;
+
+	constructor(app: App, message: string, onChoose: (confirmed: boolean) => void) {
+		super(app);
+		this.message = message;
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Speech budget' });
+		contentEl.createEl('p', { text: this.message });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Stop')
+				.onClick(() => this.choose(false))
+			)
+			.addButton(button => button
+				.setButtonText('Continue')
+				.setCta()
+				.onClick(() => this.choose(true))
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.chosen) {
+			this.onChoose(false);
+		}
+	}
+
+	private choose(confirmed: boolean) {
+		this.chosen = true;
+		this.onChoose(confirmed);
+		this.close();
+	}
+}
+
+/**
+ * Picks a folder and passes on every note inside it.
+ */
+class FolderNotesModal extends FuzzySuggestModal<TFolder> {
+	plugin: GeminiTTSPlugin;
+	onChoose: (files: TFile[]) => void;
+
+	constructor(app: App, plugin: GeminiTTSPlugin, placeholder: string, onChoose: (files: TFile[]) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles().filter((file): file is TFolder => file instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.path === '/' ? '/' : folder.path;
+	}
+
+	onChooseItem(folder: TFolder) {
+		this.onChoose(this.plugin.getNotesIn(folder));
+	}
+}
+
+type PodcastSource = 'library' | 'folder' | 'tag';
+
+/**
+ * Picks what to export as a podcast feed: the whole library, or the notes in
+ * a folder or with a tag.
+ */
+class PodcastSourceModal extends FuzzySuggestModal<[PodcastSource, string]> {
+	plugin: GeminiTTSPlugin;
+
+	constructor(app: App, plugin: GeminiTTSPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.setPlaceholder('Export a podcast feed from...');
+	}
+
+	getItems(): [PodcastSource, string][] {
+		return [
+			['library', 'Every note in the audio library'],
+			['folder', 'Notes in a folder'],
+			['tag', 'Notes with a tag']
+		];
+	}
+
+	getItemText([, label]: [PodcastSource, string]): string {
+		return label;
+	}
+
+	onChooseItem([source]: [PodcastSource, string]) {
+		const exporter = this.plugin.podcastExporter;
+		if (source === 'library') {
+			exporter.export();
+		} else if (source === 'folder') {
+			new FolderNotesModal(this.app, this.plugin, 'Export the audio of the notes in a folder', files => exporter.export(files)).open();
+		} else {
+			new TagNotesModal(this.app, 'Export the audio of the notes with a tag', files => exporter.export(files)).open();
+		}
+	}
+}
+
+/**
+ * Picks a tag and passes on every note that has it.
+ */
+class TagNotesModal extends FuzzySuggestModal<string> {
+	onChoose: (files: TFile[]) => void;
+
+	constructor(app: App, placeholder: string, onChoose: (files: TFile[]) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): string[] {
+		const tags = new Set<string>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.getTags(file).forEach(tag => tags.add(tag));
+		}
+		return Array.from(tags).sort();
+	}
+
+	getItemText(tag: string): string {
+		return tag;
+	}
+
+	onChooseItem(tag: string) {
+		// A tag also matches its nested tags, like #book matches #book/fiction
+		const files = this.app.vault.getMarkdownFiles()
+			.filter(file => this.getTags(file).some(fileTag => fileTag === tag || fileTag.startsWith(`${tag}/`)))
+			.sort((a, b) => a.path.localeCompare(b.path));
+		this.onChoose(files);
+	}
+
+	private getTags(file: TFile): string[] {
+		const cache = this.app.metadataCache.getFileCache(file);
+		return cache ? getAllTags(cache) || [] : [];
+	}
+}
+
+/**
+ * Searches note names and contents, and adds the matches to the queue in
+ * order of relevance.
+ */
+class QueueSearchModal extends Modal {
+	plugin: GeminiTTSPlugin;
+
+	constructor(app: App, plugin: GeminiTTSPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Add search results to queue' });
+
+		let query = '';
+		const search = async () => {
+			if (!query.trim()) return;
+			const match = prepareSimpleSearch(query);
+			const results: { file: TFile; score: number }[] = [];
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				const result = match(`${file.basename}\n${await this.app.vault.cachedRead(file)}`);
+				if (result) {
+					results.push({ file, score: result.score });
+				}
+			}
+			results.sort((a, b) => b.score - a.score);
+			this.close();
+			await this.plugin.queue.add(results.map(result => result.file));
+		};
+
+		new Setting(contentEl)
+			.setName('Search')
+			.setDesc('Notes whose name or content contains every word')
+			.addText(text => {
+				text.onChange(value => query = value);
+				text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						search();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Add to queue')
+				.setCta()
+				.onClick(search)
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+type ScriptMode = 'summary' | 'translation';
+
+type SummaryLength = 'short' | 'medium' | 'long';
+
+// Summary lengths with their names and target word counts, in the order shown in settings
+const SUMMARY_LENGTHS: [SummaryLength, string, number][] = [
+	['short', 'Short (about a minute)', 150],
+	['medium', 'Medium (about three minutes)', 450],
+	['long', 'Long (about five minutes)', 750]
+];
+
+/**
+ * Shows a summary or translation of a note written by the Gemini text model
+ * so it can be checked and edited before it is read aloud. The script can be
+ * saved as a note next to where the note's audio is saved.
+ */
+class ScriptPreviewModal extends Modal {
+	plugin: GeminiTTSPlugin;
+	file: TFile;
+	noteContent: string;
+	mode: ScriptMode;
+	private summaryLength: SummaryLength;
+	private language: string;
+	private controller: AbortController | null = null;
+	private scriptInput: HTMLTextAreaElement;
+	private statusEl: HTMLElement;
+	// Note the script was saved to, read in place of the original when set
+	private savedNote: TFile | null = null;
+
+	constructor(app: App, plugin: GeminiTTSPlugin, file: TFile, noteContent: string, mode: ScriptMode) {
+		super(app);
+		this.plugin = plugin;
+		this.file = file;
+		this.noteContent = noteContent;
+		this.mode = mode;
+		this.summaryLength = plugin.settings.summaryLength;
+		this.language = plugin.settings.translationLanguage;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: `${this.mode === 'summary' ? 'Summary' : 'Translation'} of ${this.file.basename}` });
+
+		const options = new Setting(contentEl);
+		if (this.mode === 'summary') {
+			options.setName('Length').addDropdown(dropdown => {
+				SUMMARY_LENGTHS.forEach(([length, name]) => dropdown.addOption(length, name));
+				dropdown
+					.setValue(this.summaryLength)
+					.onChange(value => this.summaryLength = value as SummaryLength);
+			});
+		} else {
+			options.setName('Language').addText(text => text
+				.setValue(this.language)
+				.onChange(value => this.language = value)
+			);
+		}
+		options.addButton(button => button
+			.setButtonText('Regenerate')
+			.onClick(() => this.generate())
+		);
+
+		this.statusEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+		this.scriptInput = contentEl.createEl('textarea', { cls: 'gemini-tts-script-input' });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Save as note')
+				.onClick(() => this.saveAsNote())
+			)
+			.addButton(button => button
+				.setButtonText('Read aloud')
+				.setCta()
+				.onClick(() => this.readAloud())
+			);
+
+		this.generate();
+	}
+
+	onClose() {
+		this.controller?.abort();
+		this.contentEl.empty();
+	}
+
+	private async generate() {
+		this.controller?.abort();
+		const controller = new AbortController();
+		this.controller = controller;
+
+		const overrides = this.plugin.getReadingOverrides(this.file, this.noteContent);
+		const cleaned = this.plugin.cleanMarkdown(this.noteContent, 0, overrides).text.trim();
+		if (!cleaned) {
+			this.statusEl.setText('No readable text found in note');
+			return;
+		}
+
+		this.statusEl.setText(this.mode === 'summary' ? 'Writing summary...' : `Translating into ${this.language}...`);
+		this.scriptInput.disabled = true;
+		try {
+			const option = this.mode === 'summary' ? this.summaryLength : this.language;
+			const script = await this.plugin.writeScript(cleaned, this.mode, option, controller.signal);
+			if (controller.signal.aborted) return;
+			this.scriptInput.value = script;
+			this.statusEl.setText(`${script.length.toLocaleString()} characters. Edit the text before reading if you like.`);
+		} catch (error) {
+			if (controller.signal.aborted) return;
+			console.error('[Gemini TTS] Error writing script:', error);
+			this.statusEl.setText(`Failed: ${error.message}`);
+			this.plugin.showErrorNotice(error);
+		} finally {
+			this.scriptInput.disabled = false;
+		}
+	}
+
+	private async saveAsNote() {
+		const script = this.scriptInput.value.trim();
+		if (!script) return;
+
+		const folderPath = this.plugin.library.getFolder(this.file);
+		const suffix = this.mode === 'summary' ? 'Summary' : this.language.trim();
+		const path = normalizePath(`${folderPath}/${this.file.basename} (${suffix}).md`);
+		const content = `---\ntts-source: "[[${this.file.basename}]]"\n---\n${script}\n`;
+
+		try {
+			if (folderPath && !await this.app.vault.adapter.exists(folderPath)) {
+				await this.app.vault.createFolder(folderPath);
+			}
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, content);
+				this.savedNote = existing;
+			} else {
+				this.savedNote = await this.app.vault.create(path, content);
+			}
+			new Notice(`Saved ${path}`);
+		} catch (error) {
+			new Notice(`Failed to save note: ${error.message}`);
+			console.error('[Gemini TTS] Error saving script note:', error);
+		}
+	}
+
+	private async readAloud() {
+		const script = this.scriptInput.value.trim();
+		if (!script) return;
+
+		this.close();
+		this.plugin.stopPlayback();
+		// The reading profile and frontmatter settings such as tts-voice still come
+		// from the original note, but the audio only belongs to a note once the
+		// script has been saved
+		await this.plugin.readMarkdown(script, this.noteContent, undefined, 0, this.file, undefined, this.savedNote);
+	}
+}
+
+interface BatchRenderJob {
+	file: TFile;
+	chunks: SpeechChunk[];
+	overrides: NoteOverrides;
+	// Content key of the whole reading, used to tell whether its audio is saved
+	readingKey: string;
+}
+
+/**
+ * Generates and saves audio for many notes. Shows how many notes need audio
+ * and an estimate of the cost first, then a progress bar with pause and
+ * cancel. Requests are spaced out to stay under the rate limit, and notes
+ * whose current text already has saved audio are skipped. Closing the modal
+ * cancels the run.
+ */
+class BatchRenderModal extends Modal {
+	plugin: GeminiTTSPlugin;
+	files: TFile[];
+	private jobs: BatchRenderJob[] = [];
+	private controller = new AbortController();
+	private paused = false;
+	private nextRequestAt = 0;
+
+	constructor(app: App, plugin: GeminiTTSPlugin, files: TFile[]) {
+		super(app);
+		this.plugin = plugin;
+		this.files = files;
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Render notes to audio' });
+		const status = contentEl.createEl('p', { text: `Checking ${this.files.length} notes...` });
+
+		const { jobs, upToDate, empty, characters, uncachedCharacters, cost } = await this.plan();
+		this.jobs = jobs;
+		if (this.controller.signal.aborted) return;
+
+		const skipped = [
+			upToDate > 0 ? `${upToDate} already have audio` : '',
+			empty > 0 ? `${empty} have no text to read` : ''
+		].filter(Boolean).join(', ');
+		status.setText(`${jobs.length} of ${this.files.length} notes need audio${skipped ? ` (${skipped})` : ''}.`);
+		if (jobs.length === 0) return;
+
+		const provider = this.plugin.getProvider();
+		contentEl.createEl('p', {
+			text: `${uncachedCharacters.toLocaleString()} characters to send to ${provider.name}, ` +
+				`about ${formatTime(characters / SPOKEN_CHARACTERS_PER_SECOND)} of audio. ` +
+				(cost !== null ? `Estimated cost: $${cost.toFixed(2)}.` : 'No cost estimate for this model.')
+		});
+
+		const { budgetPeriod, budgetCap } = this.plugin.settings;
+		const spent = this.plugin.usage.spent();
+		const periodName = budgetPeriod === 'day' ? 'today' : 'this month';
+		contentEl.createEl('p', {
+			text: `About $${spent.toFixed(2)} spent ${periodName}` + (budgetCap > 0 ? ` of your $${budgetCap.toFixed(2)} cap.` : '.') +
+				(budgetCap > 0 && cost !== null && spent + cost > budgetCap ? ' This run would go past the cap and stop when it is reached.' : '')
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close())
+			)
+			.addButton(button => button
+				.setButtonText(`Render ${jobs.length} notes`)
+				.setCta()
+				.onClick(() => this.run())
+			);
+	}
+
+	onClose() {
+		this.controller.abort();
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Works out which notes need audio, how much text has to be generated and
+	 * what it costs with the model each note is read with. The cost is null
+	 * when a model has no known price.
+	 */
+	private async plan() {
+		const { plugin } = this;
+		await plugin.audioCache.load();
+
+		const jobs: BatchRenderJob[] = [];
+		let upToDate = 0;
+		let empty = 0;
+		let characters = 0;
+		let uncachedCharacters = 0;
+		let cost: number | null = 0;
+
+		for (const file of this.files) {
+			if (this.controller.signal.aborted) break;
+			const noteContent = await this.app.vault.cachedRead(file);
+			const overrides = plugin.getReadingOverrides(file, noteContent);
+			const spoken = await plugin.prepareSpeech(noteContent, 0, overrides);
+			if (!spoken) {
+				empty++;
+				continue;
+			}
+
+			const provider = plugin.getProvider(overrides.provider);
+			const chunks = plugin.buildSpeechChunks(spoken.text, overrides);
+			const keys: string[] = [];
+			let uncached = 0;
+			let noteCost: number | null = 0;
+			for (const chunk of chunks) {
+				const { request, key } = await plugin.prepareChunkRequest(chunk, overrides);
+				keys.push(key);
+				if (!plugin.settings.cacheEnabled || !await plugin.audioCache.has(key)) {
+					uncached += chunk.text.length;
+					const chunkCost = estimateSpeechCost(provider, request.modelName, request.text.length);
+					noteCost = noteCost !== null && chunkCost !== null ? noteCost + chunkCost : null;
+				}
+			}
+
+			const readingKey = await plugin.audioCache.hash(keys);
+			const savedPath = plugin.audioCache.getSavedFile(readingKey);
+			if (savedPath && await this.app.vault.adapter.exists(savedPath)) {
+				upToDate++;
+				continue;
+			}
+
+			jobs.push({ file, chunks, overrides, readingKey });
+			characters += chunks.reduce((total, chunk) => total + chunk.text.length, 0);
+			uncachedCharacters += uncached;
+			cost = cost !== null && noteCost !== null ? cost + noteCost : null;
+		}
+
+		return { jobs, upToDate, empty, characters, uncachedCharacters, cost };
+	}
+
+	private async run() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h3', { text: 'Rendering notes to audio' });
+		const progress = contentEl.createEl('progress', { cls: 'gemini-tts-batch-progress', attr: { max: String(this.jobs.length), value: '0' } });
+		const status = contentEl.createEl('p');
+
+		const controls = new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Pause')
+				.onClick(() => {
+					this.paused = !this.paused;
+					button.setButtonText(this.paused ? 'Resume' : 'Pause');
+				})
+			)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.setWarning()
+				.onClick(() => this.close())
+			);
+
+		let rendered = 0;
+		let failed = 0;
+		let stopReason = '';
+		for (const [index, job] of this.jobs.entries()) {
+			const label = `${index + 1} of ${this.jobs.length}: ${job.file.basename}`;
+			status.setText(label);
+			try {
+				await this.render(job, part => status.setText(`${label} (part ${part} of ${job.chunks.length})`));
+				rendered++;
+			} catch (error) {
+				if (this.controller.signal.aborted) return;
+				console.error('[Gemini TTS] Batch render failed for', job.file.path, error);
+				if (error instanceof InvalidApiKeyError || error instanceof QuotaExceededError || error instanceof ProviderUnreachableError || error instanceof BudgetExceededError) {
+					// Every other note would fail the same way
+					this.plugin.showErrorNotice(error);
+					stopReason = error.message;
+					break;
+				}
+				failed++;
+			}
+			progress.value = index + 1;
+		}
+
+		controls.settingEl.remove();
+		const summary = `Rendered ${rendered} of ${this.jobs.length} notes` + (failed > 0 ? `, ${failed} failed (see the console)` : '');
+		status.setText(stopReason ? `${summary}. Stopped: ${stopReason}` : `${summary}.`);
+		new Notice(summary);
+	}
+
+	/**
+	 * Generates every chunk of a note, then saves the stitched audio.
+	 */
+	private async render(job: BatchRenderJob, onPart: (part: number) => void) {
+		const { plugin } = this;
+		const { signal } = this.controller;
+		const buffers: AudioBuffer[] = [];
+		let context: OfflineAudioContext | null = null;
+
+		for (const [index, chunk] of job.chunks.entries()) {
+			await this.waitWhilePaused();
+			onPart(index + 1);
+
+			// Space out requests that go to the provider; cached chunks need no waiting
+			const { key } = await plugin.prepareChunkRequest(chunk, job.overrides);
+			if (!plugin.settings.cacheEnabled || !await plugin.audioCache.has(key)) {
+				await this.waitUntil(this.nextRequestAt);
+				this.nextRequestAt = Date.now() + 60000 / Math.max(1, plugin.settings.batchRequestsPerMinute);
+			}
+
+			const { buffer, sampleRate } = await plugin.synthesizeChunk(chunk, job.overrides, signal);
+			// Decoding at the first chunk's rate keeps every chunk at the same rate
+			context = context || new OfflineAudioContext(1, 1, sampleRate || 24000);
+			buffers.push(await context.decodeAudioData(buffer.slice(0)));
+		}
+		if (signal.aborted) throw new RequestCancelledError();
+
+		const { pcm, sampleRate } = stitchToPcm(buffers);
+		await plugin.saveAudio(new Blob([plugin.pcmToWav(pcm, sampleRate)], { type: 'audio/wav' }), job.file, {
+			key: job.readingKey,
+			voices: plugin.getChunkVoices(job.chunks, job.overrides).join(', '),
+			duration: pcm.byteLength / 2 / sampleRate
+		});
+	}
+
+	private async waitWhilePaused() {
+		while (this.paused && !this.controller.signal.aborted) {
+			await sleep(250);
+		}
+		if (this.controller.signal.aborted) throw new RequestCancelledError();
+	}
+
+	private async waitUntil(time: number) {
+		while (Date.now() < time && !this.controller.signal.aborted) {
+			await sleep(Math.min(250, time - Date.now()));
+		}
+		await this.waitWhilePaused();
+	}
+}
+
+class GeminiTTSSettingTab extends PluginSettingTab {
+	plugin: GeminiTTSPlugin;
+	private previewAudio: HTMLAudioElement | null = null;
+
+	constructor(app: App, plugin: GeminiTTSPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const { containerEl } = this;
+
+		containerEl.empty();
+		containerEl.addClass('gemini-tts-settings');
+
+		containerEl.createEl('h2', { text: 'Gemini TTS Settings' });
+
+		// Provider setting
+		new Setting(containerEl)
+			.setName('Provider')
+			.setDesc('The speech service to use. An OpenAI-compatible server can be OpenAI itself or a self-hosted server such as Piper or Coqui')
+			.addDropdown(dropdown => {
+				TTS_PROVIDERS.forEach(([id, name]) => dropdown.addOption(id, name));
+				dropdown
+					.setValue(this.plugin.settings.provider)
+					.onChange(async (value) => {
+						this.plugin.settings.provider = value as TTSProviderId;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		if (this.plugin.settings.provider === 'openai') {
+			this.displayOpenAISettings(containerEl);
+		} else {
+			this.displayGeminiSettings(containerEl);
+		}
+
+		// Style Prompt setting
+		new Setting(containerEl)
+			.setName('Style Prompt')
+			.setDesc('Instructions for how the text should be read. Notes can override this with a tts-style frontmatter property')
+			.addTextArea(text => text
+				.setPlaceholder('Read clearly and naturally.')
+				.setValue(this.plugin.settings.stylePrompt)
+				.onChange(async (value) => {
+					this.plugin.settings.stylePrompt = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Dialogue Mode setting
+		new Setting(containerEl)
+			.setName('Dialogue Mode')
+			.setDesc('Read lines like "Alice: ..." with a different voice per speaker. Notes can override this with a tts-dialogue frontmatter property')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.dialogueMode)
+				.onChange(async (value) => {
+					this.plugin.settings.dialogueMode = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Speaker Voices setting
+		new Setting(containerEl)
+			.setName('Speaker Voices')
+			.setDesc('One "Speaker: Voice" mapping per line. Speakers without a mapping get a voice automatically. Notes can add mappings with a tts-speakers frontmatter property')
+			.addTextArea(text => text
+				.setPlaceholder('Alice: Kore\nBob: Charon')
+				.setValue(Object.entries(this.plugin.settings.speakerVoices).map(([speaker, voice]) => `${speaker}: ${voice}`).join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.speakerVoices = this.plugin.parseSpeakerVoices(value);
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Highlight While Reading setting
+		new Setting(containerEl)
+			.setName('Highlight While Reading')
+			.setDesc('Highlight the sentence being read in the editor and keep it scrolled into view')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.highlightWhileReading)
+				.onChange(async (value) => {
+					this.plugin.settings.highlightWhileReading = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Click To Seek setting
+		new Setting(containerEl)
+			.setName('Click To Seek')
+			.setDesc('While a note is being read, clicking a paragraph in it jumps playback to that paragraph')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.clickToSeek)
+				.onChange(async (value) => {
+					this.plugin.settings.clickToSeek = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Skip Code Blocks setting
+		new Setting(containerEl)
+			.setName('Skip Code Blocks')
+			.setDesc('Skip reading code blocks and inline code')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.skipCodeBlocks)
+				.onChange(async (value) => {
+					this.plugin.settings.skipCodeBlocks = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Chunk Size setting
+		new Setting(containerEl)
+			.setName('Chunk Size')
+			.setDesc('Maximum characters per request. Long notes are split at paragraph and sentence boundaries, and playback starts as soon as the first chunk is ready')
+			.addText(text => text
+				.setPlaceholder('1500')
+				.setValue(String(this.plugin.settings.maxChunkCharacters))
+				.onChange(async (value) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.maxChunkCharacters = parsed;
+						await this.plugin.saveSettings();
+					}
+				})
+			);
+
+		// Request Timeout setting
+		new Setting(containerEl)
+			.setName('Request Timeout')
+			.setDesc('Seconds to wait for Gemini to generate a chunk before giving up')
+			.addText(text => text
+				.setPlaceholder('120')
+				.setValue(String(this.plugin.settings.requestTimeoutSeconds))
+				.onChange(async (value) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.requestTimeoutSeconds = parsed;
+						await this.plugin.saveSettings();
+					}
+				})
+			);
+
+		// Max Retries setting
+		new Setting(containerEl)
+			.setName('Retries')
+			.setDesc('How many times to retry a chunk when Gemini is rate limited or has a server error, waiting longer each time')
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(String(this.plugin.settings.maxRetries))
+				.onChange(async (value) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.maxRetries = parsed;
+						await this.plugin.saveSettings();
+					}
+				})
+			);
+
+		// Batch rate limit setting
+		new Setting(containerEl)
+			.setName('Batch Requests per Minute')
+			.setDesc('How many requests rendering notes in bulk may send per minute. Keep this under your plan\'s rate limit')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.batchRequestsPerMinute))
+				.onChange(async (value) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.batchRequestsPerMinute = parsed;
+						await this.plugin.saveSettings();
+					}
+				})
+			);
+
+		// Save Audio Files setting
+		new Setting(containerEl)
+			.setName('Auto-save Audio Files')
+			.setDesc('Automatically save generated audio files to the vault. When off, use the save button in the sidebar or the "Save current audio to file" command')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.saveAudioFiles)
+				.onChange(async (value) => {
+					this.plugin.settings.saveAudioFiles = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Export format setting
+		new Setting(containerEl)
+			.setName('Audio Format')
+			.setDesc('Format of saved audio files. Opus files are about a tenth the size of WAV and are tagged with the note title, voice, date and note path.')
+			.addDropdown(dropdown => {
+				AUDIO_FORMATS.forEach(([format, name]) => dropdown.addOption(format, name));
+				dropdown
+					.setValue(this.plugin.settings.audioFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.audioFormat = value as AudioFormat;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		if (this.plugin.settings.audioFormat === 'opus') {
+			new Setting(containerEl)
+				.setName('Opus Bitrate')
+				.setDesc('Higher bitrates sound better and make larger files. 32 kbps is plenty for speech.')
+				.addDropdown(dropdown => {
+					[16, 24, 32, 48, 64].forEach(kbps => dropdown.addOption(String(kbps), `${kbps} kbps`));
+					dropdown
+						.setValue(String(this.plugin.settings.opusBitrate))
+						.onChange(async (value) => {
+							this.plugin.settings.opusBitrate = Number(value);
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+
+		// Note link setting
+		new Setting(containerEl)
+			.setName('Link Audio in Note')
+			.setDesc('Add saved audio to the note it was read from. A new reading replaces the link to the previous one.')
+			.addDropdown(dropdown => {
+				AUDIO_LINK_MODES.forEach(([mode, name]) => dropdown.addOption(mode, name));
+				dropdown
+					.setValue(this.plugin.settings.audioLinkMode)
+					.onChange(async (value) => {
+						this.plugin.settings.audioLinkMode = value as AudioLinkMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Audio Output Folder setting
+		new Setting(containerEl)
+			.setName('Audio Output Folder')
+			.setDesc('Folder path where audio files will be saved, unless they are saved next to the note')
+			.addText(text => text
+				.setPlaceholder('TTS Audio')
+				.setValue(this.plugin.settings.audioOutputFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.audioOutputFolder = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Save location setting
+		new Setting(containerEl)
+			.setName('Save Location')
+			.setDesc('Save audio next to the note, in the audio output folder, or in the audio output folder under the same folders as the note')
+			.addDropdown(dropdown => {
+				AUDIO_STORAGE_OPTIONS.forEach(([storage, name]) => dropdown.addOption(storage, name));
+				dropdown
+					.setValue(this.plugin.settings.audioStorage)
+					.onChange(async (value) => {
+						this.plugin.settings.audioStorage = value as AudioStorage;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// Saved audio retention
+		containerEl.createEl('h3', { text: 'Saved Audio Retention' });
+
+		const retentionLimits: ['retentionPerNote' | 'retentionDays' | 'retentionMaxSizeMB', string, string][] = [
+			['retentionPerNote', 'Keep Per Note', 'Number of saved audio files to keep for each note, newest first. 0 keeps them all'],
+			['retentionDays', 'Delete After Days', 'Remove saved audio older than this many days. 0 keeps it forever'],
+			['retentionMaxSizeMB', 'Total Size Limit', 'Maximum size of all saved audio in MB. The oldest files are removed first. 0 for no limit']
+		];
+		for (const [key, name, desc] of retentionLimits) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setPlaceholder('0')
+					.setValue(String(this.plugin.settings[key]))
+					.onChange(async (value) => {
+						const parsed = parseInt(value);
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings[key] = parsed;
+							await this.plugin.saveSettings();
+						}
+					})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName('Clean Up Now')
+			.setDesc('Saved audio past these limits is moved to the trash after each save. Clean up applies them to existing files')
+			.addButton(button => button
+				.setButtonText('Clean up')
+				.onClick(async () => {
+					const removed = await this.plugin.library.applyRetention();
+					new Notice(removed > 0 ? `Moved ${removed} saved audio file(s) to the trash` : 'No saved audio past the retention limits');
+				})
+			);
+
+		// Summaries and translations
+		containerEl.createEl('h3', { text: 'Summaries and Translations' });
+
+		// Speech from another provider still needs a Gemini key for these
+		if (this.plugin.settings.provider !== 'gemini') {
+			this.displayApiKeys(containerEl);
+		}
+
+		new Setting(containerEl)
+			.setName('Text Model')
+			.setDesc('Gemini model that writes summaries and translations. It uses the Gemini API key, whichever speech provider is selected')
+			.addText(text => text
+				.setPlaceholder('gemini-2.5-flash')
+				.setValue(this.plugin.settings.textModelName)
+				.onChange(async (value) => {
+					this.plugin.settings.textModelName = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Summary Length')
+			.setDesc('Default length of summaries. It can be changed in the preview')
+			.addDropdown(dropdown => {
+				SUMMARY_LENGTHS.forEach(([length, name]) => dropdown.addOption(length, name));
+				dropdown
+					.setValue(this.plugin.settings.summaryLength)
+					.onChange(async (value) => {
+						this.plugin.settings.summaryLength = value as SummaryLength;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Translation Language')
+			.setDesc('Default language to translate into. It can be changed in the preview')
+			.addText(text => text
+				.setPlaceholder('Icelandic')
+				.setValue(this.plugin.settings.translationLanguage)
+				.onChange(async (value) => {
+					this.plugin.settings.translationLanguage = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Podcast feed export
+		containerEl.createEl('h3', { text: 'Podcast Feed' });
+
+		new Setting(containerEl)
+			.setName('Feed Title')
+			.setDesc('Name of the podcast. Defaults to the vault name')
+			.addText(text => text
+				.setPlaceholder(this.app.vault.getName())
+				.setValue(this.plugin.settings.podcastTitle)
+				.onChange(async (value) => {
+					this.plugin.settings.podcastTitle = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Feed URL')
+			.setDesc('Address the export folder is served at, such as https://example.com/podcast. Episode links in the feed point here')
+			.addText(text => text
+				.setPlaceholder('https://example.com/podcast')
+				.setValue(this.plugin.settings.podcastBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.podcastBaseUrl = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Export Folder')
+			.setDesc('Vault folder the feed.xml and episode audio are written to')
+			.addText(text => text
+				.setPlaceholder('TTS Podcast')
+				.setValue(this.plugin.settings.podcastFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.podcastFolder = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		// Usage and budget
+		containerEl.createEl('h3', { text: 'Usage and Budget' });
 
-		let audioUrl: string | null = null;
+		const usageEl = containerEl.createDiv({ cls: 'gemini-tts-usage' });
+		this.renderUsage(usageEl);
 
-		const cleanupAudio = () => {
-			if (audioUrl) {
-				URL.revokeObjectURL(audioUrl);
-				audioUrl = null;
-			}
-			this.isPlaying = false;
-		};
+		new Setting(containerEl)
+			.setName('Budget Period')
+			.setDesc('Whether the limits below apply per day or per calendar month')
+			.addDropdown(dropdown => dropdown
+				.addOption('month', 'Monthly')
+				.addOption('day', 'Daily')
+				.setValue(this.plugin.settings.budgetPeriod)
+				.onChange(async (value) => {
+					this.plugin.settings.budgetPeriod = value as BudgetPeriod;
+					await this.plugin.saveSettings();
+				})
+			);
 
-		try {
-			// Update status bar
-			this.statusBarItem.setText('Gemini TTS: Generating...');
-			new Notice('Generating audio...');
+		const budgetLimits: ['budgetConfirmAbove' | 'budgetCap', string, string][] = [
+			['budgetConfirmAbove', 'Confirm Above', 'Ask before generating more audio once the estimated spend passes this many dollars. 0 never asks'],
+			['budgetCap', 'Spending Cap', 'Refuse to generate audio past this many dollars. Cached and saved audio still play. 0 for no cap']
+		];
+		for (const [key, name, desc] of budgetLimits) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setPlaceholder('0')
+					.setValue(String(this.plugin.settings[key]))
+					.onChange(async (value) => {
+						const parsed = parseFloat(value);
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings[key] = parsed;
+							await this.plugin.saveSettings();
+						}
+					})
+				);
+		}
 
-			// Fetch audio from Gemini API
-			const audioResponse = await this.fetchGeminiAudio(cleanedText);
-			const { buffer: audioBuffer, mimeType } = audioResponse;
+		new Setting(containerEl)
+			.setName('Reset Usage')
+			.setDesc('Clear the usage history')
+			.addButton(button => button
+				.setButtonText('Reset')
+				.setWarning()
+				.onClick(async () => {
+					if (!confirm('Clear all recorded usage?')) return;
+					await this.plugin.usage.reset();
+					this.renderUsage(usageEl);
+				})
+			);
 
-			// Convert ArrayBuffer to Blob and create URL using the correct MIME type
-			const audioBlob = new Blob([audioBuffer], { type: mimeType });
-			this.currentAudioBlob = audioBlob;
-			console.log('[Gemini TTS] Audio generated:', { size: audioBlob.size, type: audioBlob.type });
-			
-			audioUrl = URL.createObjectURL(audioBlob);
+		// Audio cache
+		containerEl.createEl('h3', { text: 'Audio Cache' });
 
-			// Create and play audio
-			this.currentAudio = new Audio();
-			this.currentAudio.crossOrigin = 'anonymous';
-			this.currentAudio.src = audioUrl;
-			this.isPlaying = true;
-			this.isPaused = false;
+		new Setting(containerEl)
+			.setName('Cache Generated Audio')
+			.setDesc('Reuse audio for text that has not changed since it was last read, so re-reading a note only generates the edited parts')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cacheEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.cacheEnabled = value;
+					await this.plugin.saveSettings();
+				})
+			);
 
-			this.currentAudio.addEventListener('ended', () => {
-				if (!this.currentAudio?.loop) {
-					this.statusBarItem.setText('Gemini TTS: Stopped');
-					cleanupAudio();
-					if (this.sidebarView) {
-						this.sidebarView.updatePlayerDisplay(false);
+		new Setting(containerEl)
+			.setName('Cache Size Limit')
+			.setDesc('Maximum cache size in MB. The least recently used audio is removed first')
+			.addText(text => text
+				.setPlaceholder('200')
+				.setValue(String(this.plugin.settings.cacheMaxSizeMB))
+				.onChange(async (value) => {
+					const parsed = parseInt(value);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.cacheMaxSizeMB = parsed;
+						await this.plugin.saveSettings();
 					}
-				}
-			});
-
-			this.currentAudio.addEventListener('error', (e) => {
-				console.error('[Gemini TTS] Audio error:', this.currentAudio?.error?.message);
-				new Notice('Error playing audio: ' + (this.currentAudio?.error?.message || 'Unknown error'));
-				this.statusBarItem.setText('Gemini TTS: Error');
-				cleanupAudio();
-				if (this.sidebarView) {
-					this.sidebarView.updatePlayerDisplay(false);
-				}
-			});
+				})
+			);
 
-			this.currentAudio.addEventListener('canplay', () => {
-				console.log('[Gemini TTS] Audio ready, duration:', this.currentAudio?.duration);
-			});
+		const cacheSetting = new Setting(containerEl)
+			.setName('Clear Cache')
+			.addButton(button => button
+				.setButtonText('Clear')
+				.onClick(async () => {
+					await this.plugin.audioCache.clear();
+					cacheSetting.setDesc('Cache is empty');
+					new Notice('Audio cache cleared');
+				})
+			);
+		this.plugin.audioCache.load().then(() => {
+			const sizeMB = this.plugin.audioCache.totalSize / 1024 / 1024;
+			cacheSetting.setDesc(`Currently using ${sizeMB.toFixed(1)} MB`);
+		});
 
-			this.currentAudio.addEventListener('loadedmetadata', () => {
-				console.log('[Gemini TTS] Audio metadata loaded');
-			});
+		// Pronunciation lexicon
+		containerEl.createEl('h3', { text: 'Pronunciation' });
 
-			this.statusBarItem.setText('Gemini TTS: Playing...');
-			await this.currentAudio.play();
-			new Notice('Playing audio');
-			
-			// Update sidebar player display
-			if (this.sidebarView) {
-				this.sidebarView.updatePlayerDisplay(true);
-			}
+		new Setting(containerEl)
+			.setName('Lexicon Note')
+			.setDesc('Path of a note with a | Term | Say | Options | table. Options can be "case-sensitive", "partial" or "regex"; a term written as /pattern/ is a regular expression')
+			.addText(text => text
+				.setPlaceholder('TTS Lexicon.md')
+				.setValue(this.plugin.settings.lexiconNotePath)
+				.onChange(async (value) => {
+					this.plugin.settings.lexiconNotePath = value;
+					await this.plugin.saveSettings();
+				})
+			);
 
-			// Auto-save audio to sidebar
-			await this.saveCurrentAudio();
-		} catch (error) {
-			console.error('[Gemini TTS] Error:', error.message);
-			new Notice(`Error: ${error.message}`);
-			this.statusBarItem.setText('Gemini TTS: Error');
-			cleanupAudio();
-		}
-	}
+		new Setting(containerEl)
+			.setName('Lexicon Entries')
+			.setDesc('JSON list of entries applied after the lexicon note, e.g. [{"term": "SQL", "replacement": "sequel", "caseSensitive": true}]')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('[]')
+					.setValue(JSON.stringify(this.plugin.settings.lexiconEntries, null, 2))
+					.onChange(async (value) => {
+						try {
+							const entries = JSON.parse(value || '[]');
+							if (!Array.isArray(entries)) throw new Error('Expected a list');
+							this.plugin.settings.lexiconEntries = entries.filter(entry =>
+								entry && typeof entry.term === 'string' && typeof entry.replacement === 'string'
+							);
+							text.inputEl.removeClass('gemini-tts-input-error');
+							await this.plugin.saveSettings();
+						} catch (error) {
+							text.inputEl.addClass('gemini-tts-input-error');
+						}
+					});
+			});
 
-	stopPlayback() {
-		if (this.currentAudio) {
-			this.currentAudio.pause();
-			this.currentAudio.currentTime = 0;
-			this.currentAudio = null;
-			this.isPlaying = false;
-			this.isPaused = false;
-			this.statusBarItem.setText('Gemini TTS: Stopped');
-			new Notice('Playback stopped');
-			
-			// Update sidebar to show no audio playing
-			if (this.sidebarView) {
-				this.sidebarView.updatePlayerDisplay(false);
-			}
-		}
-	}
+		// Markdown element rules
+		containerEl.createEl('h3', { text: 'Markdown Elements' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Choose whether each element is skipped, read, or replaced with a spoken cue.'
+		});
 
-	togglePauseResume() {
-		if (!this.currentAudio) {
-			new Notice('No audio is currently loaded');
-			return;
+		for (const [element, name, description] of SPEECH_ELEMENTS) {
+			const rule = this.plugin.settings.speechRules[element];
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(description)
+				.addDropdown(dropdown => dropdown
+					.addOption('skip', 'Skip')
+					.addOption('read', 'Read')
+					.addOption('replace', 'Replace with cue')
+					.setValue(rule.action)
+					.onChange(async (value) => {
+						rule.action = value as SpeechRule['action'];
+						await this.plugin.saveSettings();
+					})
+				)
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.speechRules[element].cue)
+					.setValue(rule.cue)
+					.onChange(async (value) => {
+						rule.cue = value;
+						await this.plugin.saveSettings();
+					})
+				);
 		}
 
-		if (this.isPaused) {
-			this.currentAudio.play();
-			this.isPaused = false;
-			this.isPlaying = true;
-			this.statusBarItem.setText('Gemini TTS: Playing...');
-			new Notice('Playback resumed');
-		} else if (this.isPlaying) {
-			this.currentAudio.pause();
-			this.isPaused = true;
-			this.isPlaying = false;
-			this.statusBarItem.setText('Gemini TTS: Paused');
-			new Notice('Playback paused');
-		}
+		// Reading profiles
+		containerEl.createEl('h3', { text: 'Reading Profiles' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'A profile saves the provider, voice, model, style prompt, Skip Code Blocks and markdown element rules above so you can switch between them in one step. Notes pick a default profile with a tts-profile frontmatter property, folders with Set reading profile in their menu.'
+		});
+		this.displayProfiles(containerEl);
 	}
 
-	async saveCurrentAudio() {
-		if (!this.currentAudioBlob) {
-			new Notice('No audio available to save');
-			return;
-		}
-
-		try {
-			const activeFile = this.app.workspace.getActiveFile();
-			const fileName = activeFile ? activeFile.basename : 'audio';
-			const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-			const audioFileName = `${fileName}_${timestamp}.wav`;
-
-			// Determine save location
-			// Priority: 1) Same folder as note, 2) Configured folder in settings
-			let folderPath = this.settings.audioOutputFolder;
-			if (activeFile && activeFile.parent) {
-				folderPath = activeFile.parent.path;
-			}
+	/**
+	 * One row per reading profile, followed by a way to save the current
+	 * settings as a new profile.
+	 */
+	private displayProfiles(containerEl: HTMLElement) {
+		const { settings } = this.plugin;
 
-			// Ensure the folder exists
-			if (!await this.app.vault.adapter.exists(folderPath)) {
-				await this.app.vault.createFolder(folderPath);
+		for (const profile of settings.readingProfiles) {
+			const active = profile.id === settings.activeProfileId;
+			const providerName = TTS_PROVIDERS.find(([id]) => id === profile.provider)?.[1] || profile.provider;
+			const details = [providerName, profile.voiceName, profile.modelName, profile.skipCodeBlocks ? 'skips code' : 'reads code'];
+			if (profile.stylePrompt.trim()) {
+				details.push(`"${profile.stylePrompt.trim()}"`);
 			}
 
-			// Convert blob to ArrayBuffer
-			const arrayBuffer = await this.currentAudioBlob.arrayBuffer();
+			const setting = new Setting(containerEl)
+				.setName(active ? `${profile.name} (active)` : profile.name)
+				.setDesc(details.join(' · '))
+				.addText(text => {
+					text
+						.setPlaceholder('Name')
+						.setValue(profile.name)
+						.onChange(value => {
+							profile.name = value;
+							setting.setName(active ? `${value} (active)` : value);
+						});
+					// Save and rename the command once the name is finished, not on every keystroke
+					let savedName = profile.name;
+					text.inputEl.addEventListener('blur', async () => {
+						if (profile.name === savedName) return;
+						const oldName = savedName;
+						savedName = profile.name;
+						await this.plugin.saveSettings();
+						this.plugin.registerProfileCommands();
+						this.plugin.updateProfileStatus();
 
-			// Save the file
-			const fullPath = folderPath ? `${folderPath}/${audioFileName}` : audioFileName;
-			await this.app.vault.adapter.writeBinary(fullPath, arrayBuffer);
+						const references = oldName.toLowerCase() === profile.name.toLowerCase() ? [] : this.plugin.findProfileReferences(oldName);
+						if (references.length > 0) {
+							new Notice(`${references.length} note(s) still pick "${oldName}" with tts-profile and are no longer read with it. Change them to "${profile.name}".`, 10000);
+						}
+					});
+				});
 
-			// Refresh sidebar audio list
-			if (this.sidebarView) {
-				await this.sidebarView.refreshAudioList();
+			if (profile.provider === 'gemini' && settings.apiKeys.length > 1) {
+				setting.addDropdown(dropdown => {
+					dropdown.addOption('', 'Active API key');
+					settings.apiKeys.forEach(entry => dropdown.addOption(entry.id, entry.name));
+					dropdown
+						.setValue(profile.apiKeyId)
+						.onChange(async (value) => {
+							profile.apiKeyId = value;
+							await this.plugin.saveSettings();
+						});
+				});
 			}
 
-			new Notice(`Audio saved: ${audioFileName}`);
-		} catch (error) {
-			new Notice(`Failed to save audio: ${error.message}`);
-			console.error('Save audio error:', error);
+			setting
+				.addButton(button => {
+					button
+						.setButtonText('Use')
+						.setTooltip('Copy this profile into the settings')
+						.onClick(async () => {
+							await this.plugin.useProfile(profile);
+							this.display();
+						});
+					if (!active) button.setCta();
+				})
+				.addButton(button => button
+					.setButtonText('Update')
+					.setTooltip('Save the current settings into this profile')
+					.onClick(async () => {
+						Object.assign(profile, this.plugin.captureProfile(profile.name, profile.id, profile.apiKeyId));
+						await this.plugin.saveSettings();
+						new Notice(`Updated reading profile ${profile.name}`);
+						this.display();
+					})
+				)
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete profile')
+					.onClick(async () => {
+						await this.plugin.deleteProfile(profile);
+						this.display();
+					})
+				);
 		}
-	}
 
-	showAudioPlayer() {
-		// Popup player no longer used - all playback is handled in sidebar
+		let name = '';
+		new Setting(containerEl)
+			.setName('Add Profile')
+			.setDesc('Save the current settings as a new profile, which also gets a "Use reading profile" command')
+			.addText(text => text
+				.setPlaceholder('e.g. Calm bedtime reading')
+				.onChange(value => {
+					name = value.trim();
+				})
+			)
+			.addButton(button => button
+				.setButtonText('Save as profile')
+				.onClick(async () => {
+					if (!name) {
+						new Notice('Give the profile a name first');
+						return;
+					}
+					const profile = this.plugin.captureProfile(name);
+					settings.readingProfiles.push(profile);
+					settings.activeProfileId = profile.id;
+					await this.plugin.saveSettings();
+					this.plugin.registerProfileCommands();
+					this.plugin.updateProfileStatus();
+					this.display();
+				})
+			);
 	}
 
-	hideAudioPlayer() {
-		if (this.audioPlayerView) {
-			this.audioPlayerView.remove();
-			this.audioPlayerView = null;
-		}
-	}
-}
+	/**
+	 * Shows usage per model for today and this month.
+	 */
+	private renderUsage(containerEl: HTMLElement) {
+		containerEl.empty();
+		const { usage } = this.plugin;
+		const periods: [string, string][] = [['Today', usage.periodKey('day')], ['This month', usage.periodKey('month')]];
 
-class GeminiTTSSettingTab extends PluginSettingTab {
-	plugin: GeminiTTSPlugin;
+		const table = containerEl.createEl('table', { cls: 'gemini-tts-usage-table' });
+		const header = table.createEl('tr');
+		['', 'Model', 'Requests', 'Characters', 'Audio', 'Est. cost'].forEach(text => header.createEl('th', { text }));
 
-	constructor(app: App, plugin: GeminiTTSPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
+		for (const [label, key] of periods) {
+			const totals = Object.entries(usage.totals(key));
+			if (totals.length === 0) {
+				const row = table.createEl('tr');
+				row.createEl('td', { text: label });
+				row.createEl('td', { text: 'No requests', attr: { colspan: '5' } });
+				continue;
+			}
+			totals.forEach(([model, entry], index) => {
+				const row = table.createEl('tr');
+				row.createEl('td', { text: index === 0 ? label : '' });
+				row.createEl('td', { text: model });
+				row.createEl('td', { text: entry.requests.toLocaleString() });
+				row.createEl('td', { text: entry.characters.toLocaleString() });
+				row.createEl('td', { text: formatTime(entry.audioSeconds) });
+				row.createEl('td', { text: `$${entry.cost.toFixed(2)}` });
+			});
+		}
+
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Costs are estimated from published list prices and only cover speech generation; check your provider\'s billing for actual charges. Cached audio costs nothing.'
+		});
 	}
 
-	display(): void {
-		const { containerEl } = this;
+	/**
+	 * Named Gemini API keys, each with a name, the key, whether it stays on
+	 * this device, and a button to test it.
+	 */
+	private displayApiKeys(containerEl: HTMLElement) {
+		const { apiKeys } = this.plugin.settings;
 
-		containerEl.empty();
-		containerEl.addClass('gemini-tts-settings');
+		for (const entry of apiKeys) {
+			const setting = new Setting(containerEl)
+				.setName(`API Key: ${entry.name}`)
+				.setDesc(entry.deviceOnly ? 'Stored on this device only, not synced with the vault' : 'Stored in the plugin data, synced with the vault')
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(entry.name)
+					.onChange(async (value) => {
+						entry.name = value;
+						setting.setName(`API Key: ${value}`);
+						await this.plugin.saveSettings();
+					})
+				)
+				.addText(text => {
+					text
+						.setPlaceholder('Enter your API key')
+						.setValue(this.plugin.getGeminiApiKey(entry.id))
+						.onChange(async (value) => {
+							await this.plugin.setGeminiApiKey(entry, value);
+						});
+					// Make the API key field a password field
+					text.inputEl.type = 'password';
+				})
+				.addToggle(toggle => toggle
+					.setTooltip('Keep this key on this device only')
+					.setValue(entry.deviceOnly)
+					.onChange(async (value) => {
+						await this.plugin.setApiKeyDeviceOnly(entry, value);
+						this.display();
+					})
+				)
+				.addButton(button => button
+					.setButtonText('Test')
+					.onClick(async () => {
+						button.setButtonText('Testing...').setDisabled(true);
+						try {
+							await this.plugin.providers.gemini.testKey(this.plugin.getGeminiApiKey(entry.id));
+							new Notice(`Gemini accepted the "${entry.name}" key`);
+						} catch (error) {
+							new Notice(error instanceof InvalidApiKeyError
+								? `Gemini rejected the "${entry.name}" key: ${error.message}`
+								: `Could not test the "${entry.name}" key: ${error.message}`, 10000);
+						} finally {
+							button.setButtonText('Test').setDisabled(false);
+						}
+					})
+				);
 
-		containerEl.createEl('h2', { text: 'Gemini TTS Settings' });
+			if (apiKeys.length > 1) {
+				setting.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove key')
+					.onClick(async () => {
+						this.app.saveLocalStorage(`gemini-tts-api-key-${entry.id}`, null);
+						this.plugin.settings.apiKeys = apiKeys.filter(apiKey => apiKey !== entry);
+						if (this.plugin.settings.activeApiKeyId === entry.id) {
+							this.plugin.settings.activeApiKeyId = this.plugin.settings.apiKeys[0].id;
+						}
+						await this.plugin.saveSettings();
+						this.display();
+					})
+				);
+			}
+		}
 
-		// API Key setting
-		new Setting(containerEl)
-			.setName('API Key')
-			.setDesc('Your Google Gemini API key')
-			.addText(text => {
-				text
-					.setPlaceholder('Enter your API key')
-					.setValue(this.plugin.settings.apiKey)
+		const activeSetting = new Setting(containerEl)
+			.setName('Active API Key')
+			.setDesc('The key requests are made with');
+		if (apiKeys.length > 1) {
+			activeSetting.addDropdown(dropdown => {
+				apiKeys.forEach(entry => dropdown.addOption(entry.id, entry.name));
+				dropdown
+					.setValue(this.plugin.settings.activeApiKeyId)
 					.onChange(async (value) => {
-						this.plugin.settings.apiKey = value;
+						this.plugin.settings.activeApiKeyId = value;
 						await this.plugin.saveSettings();
 					});
-				// Make the API key field a password field
-				text.inputEl.type = 'password';
 			});
+		}
+		activeSetting.addButton(button => button
+			.setButtonText('Add key')
+			.onClick(async () => {
+				apiKeys.push({ id: Date.now().toString(36), name: `Key ${apiKeys.length + 1}`, key: '', deviceOnly: false });
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+	}
+
+	private displayGeminiSettings(containerEl: HTMLElement) {
+		this.displayApiKeys(containerEl);
 
 		// Model Name setting
 		new Setting(containerEl)
 			.setName('Model Name')
-			.setDesc('The Gemini model to use for TTS')
-			.addText(text => text
-				.setPlaceholder('gemini-2.5-flash-preview-tts')
-				.setValue(this.plugin.settings.modelName)
-				.onChange(async (value) => {
+			.setDesc('The Gemini model to use for TTS, from the models your key can use. Notes can override this with a tts-model frontmatter property')
+			.addDropdown(dropdown => {
+				const fill = (models: string[]) => {
+					const { modelName } = this.plugin.settings;
+					dropdown.selectEl.empty();
+					models.forEach(model => dropdown.addOption(model, model));
+					if (modelName && !models.includes(modelName)) {
+						dropdown.addOption(modelName, `${modelName} (not available)`);
+					}
+					dropdown.setValue(modelName);
+				};
+				fill(this.plugin.speechModels || GEMINI_SPEECH_MODELS);
+				dropdown.onChange(async (value) => {
 					this.plugin.settings.modelName = value;
 					await this.plugin.saveSettings();
-				})
-			);
+				});
+				this.plugin.getSpeechModels().then(fill);
+			});
 
 		// Voice Name setting
 		new Setting(containerEl)
 			.setName('Voice Name')
-			.setDesc('Select the voice for text-to-speech')
-			.addDropdown(dropdown => dropdown
-				.addOption('Zephyr', 'Zephyr - Bright')
-				.addOption('Puck', 'Puck - Upbeat')
-				.addOption('Charon', 'Charon - Informative')
-				.addOption('Kore', 'Kore - Firm')
-				.addOption('Fenrir', 'Fenrir - Excitable')
-				.addOption('Leda', 'Leda - Youthful')
-				.addOption('Orus', 'Orus - Firm')
-				.addOption('Aoede', 'Aoede - Breezy')
-				.addOption('Callirhoe', 'Callirhoe - Easy-going')
-				.addOption('Autonoe', 'Autonoe - Bright')
-				.addOption('Enceladus', 'Enceladus - Breathy')
-				.addOption('Iapetus', 'Iapetus - Clear')
-				.addOption('Umbriel', 'Umbriel - Easy-going')
-				.addOption('Algieba', 'Algieba - Smooth')
-				.addOption('Despina', 'Despina - Smooth')
-				.addOption('Erinome', 'Erinome - Clear')
-				.addOption('Algenib', 'Algenib - Gravelly')
-				.addOption('Rasalgethi', 'Rasalgethi - Informative')
-				.addOption('Laomedeai', 'Laomedeai - Upbeat')
-				.addOption('Achernar', 'Achernar - Soft')
-				.addOption('Alnilam', 'Alnilam - Firm')
-				.addOption('Schedar', 'Schedar - Even')
-				.addOption('Gacrux', 'Gacrux - Mature')
-				.addOption('Pulcherrima', 'Pulcherrima - Forward')
-				.addOption('Achird', 'Achird - Friendly')
-				.addOption('Zubenelgenubi', 'Zubenelgenubi - Casual')
-				.addOption('Vindemiatrix', 'Vindemiatrix - Gentle')
-				.addOption('Sadachbia', 'Sadachbia - Lively')
-				.addOption('Sadaltager', 'Sadaltager - Knowledgeable')
-				.addOption('Sulafat', 'Sulafat - Warm')
-				.setValue(this.plugin.settings.voiceName)
-				.onChange(async (value) => {
-					this.plugin.settings.voiceName = value;
-					await this.plugin.saveSettings();
-				})
-			);
+			.setDesc('Select the voice for text-to-speech. Notes can override this with a tts-voice frontmatter property')
+			.addDropdown(dropdown => {
+				GEMINI_VOICES.forEach(([voice, description]) => dropdown.addOption(voice, `${voice} - ${description}`));
+				dropdown
+					.setValue(this.plugin.settings.voiceName)
+					.onChange(async (value) => {
+						this.plugin.settings.voiceName = value;
+						await this.plugin.saveSettings();
+					});
+			})
+			.addButton(button => this.addPreviewButton(button, () => this.plugin.settings.voiceName));
+	}
 
-		// Style Prompt setting
+	hide() {
+		this.stopPreview();
+	}
+
+	/**
+	 * Makes a button play a short sample in a voice with the current style.
+	 */
+	private addPreviewButton(button: ButtonComponent, getVoice: () => string) {
+		button
+			.setButtonText('Preview')
+			.setTooltip('Read a sample sentence in this voice and style')
+			.onClick(async () => {
+				const voiceName = getVoice();
+				this.stopPreview();
+				button.setButtonText('Loading...').setDisabled(true);
+				try {
+					const audio = await this.plugin.previewVoice(voiceName);
+					this.previewAudio = new Audio(URL.createObjectURL(new Blob([audio.buffer], { type: audio.mimeType })));
+					this.previewAudio.volume = this.plugin.settings.playbackVolume;
+					await this.previewAudio.play();
+				} catch (error) {
+					this.plugin.showErrorNotice(error);
+				} finally {
+					button.setButtonText('Preview').setDisabled(false);
+				}
+			});
+	}
+
+	private stopPreview() {
+		if (!this.previewAudio) return;
+		this.previewAudio.pause();
+		URL.revokeObjectURL(this.previewAudio.src);
+		this.previewAudio = null;
+	}
+
+	private displayOpenAISettings(containerEl: HTMLElement) {
+		// Server URL setting
 		new Setting(containerEl)
-			.setName('Style Prompt')
-			.setDesc('Instructions for how the text should be read')
-			.addTextArea(text => text
-				.setPlaceholder('Read clearly and naturally.')
-				.setValue(this.plugin.settings.stylePrompt)
+			.setName('Server URL')
+			.setDesc('Base URL of the server, up to and including /v1. Speech is requested from <url>/audio/speech')
+			.addText(text => text
+				.setPlaceholder('http://localhost:8000/v1')
+				.setValue(this.plugin.settings.openaiBaseUrl)
 				.onChange(async (value) => {
-					this.plugin.settings.stylePrompt = value;
+					this.plugin.settings.openaiBaseUrl = value;
 					await this.plugin.saveSettings();
 				})
 			);
 
-		// Skip Code Blocks setting
+		// API Key setting
 		new Setting(containerEl)
-			.setName('Skip Code Blocks')
-			.setDesc('Skip reading code blocks and inline code')
-			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.skipCodeBlocks)
-				.onChange(async (value) => {
-					this.plugin.settings.skipCodeBlocks = value;
-					await this.plugin.saveSettings();
-				})
-			);
+			.setName('API Key')
+			.setDesc('Sent as a bearer token. Leave empty for local servers that do not need one')
+			.addText(text => {
+				text
+					.setPlaceholder('Optional')
+					.setValue(this.plugin.settings.openaiApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiApiKey = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'password';
+			});
 
-		// Save Audio Files setting
+		// Model Name setting
 		new Setting(containerEl)
-			.setName('Auto-save Audio Files')
-			.setDesc('Automatically save generated audio files to the vault')
-			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.saveAudioFiles)
+			.setName('Model Name')
+			.setDesc('The model the server should use. Notes can override this with a tts-model frontmatter property')
+			.addText(text => text
+				.setPlaceholder('tts-1')
+				.setValue(this.plugin.settings.openaiModel)
 				.onChange(async (value) => {
-					this.plugin.settings.saveAudioFiles = value;
+					this.plugin.settings.openaiModel = value;
 					await this.plugin.saveSettings();
 				})
 			);
 
-		// Audio Output Folder setting
+		// Voice Name setting
+		const voices = OPENAI_VOICES.map(([voice]) => voice).join(', ');
 		new Setting(containerEl)
-			.setName('Audio Output Folder')
-			.setDesc('Folder path where audio files will be saved')
+			.setName('Voice Name')
+			.setDesc(`The voice to read with. OpenAI has ${voices}; self-hosted servers use their own voice names. Notes can override this with a tts-voice frontmatter property`)
 			.addText(text => text
-				.setPlaceholder('TTS Audio')
-				.setValue(this.plugin.settings.audioOutputFolder)
+				.setPlaceholder('alloy')
+				.setValue(this.plugin.settings.openaiVoice)
 				.onChange(async (value) => {
-					this.plugin.settings.audioOutputFolder = value;
+					this.plugin.settings.openaiVoice = value;
 					await this.plugin.saveSettings();
 				})
-			);
+			)
+			.addButton(button => this.addPreviewButton(button, () => this.plugin.settings.openaiVoice));
 	}
 }
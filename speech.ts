@@ -0,0 +1,715 @@
+/**
+ * Markdown to speech: parses a note and renders the text to be spoken,
+ * keeping track of where each character came from in the note. Kept free of
+ * the Obsidian API so it can be tested on its own.
+ */
+
+export type SpeechElement = 'table' | 'callout' | 'footnote' | 'embed' | 'image' | 'link' | 'url' | 'html' | 'math' | 'task';
+
+/**
+ * What to do with a markdown element when reading: skip it, read it, or
+ * replace it with a spoken cue. {text} in a cue stands for the element's text.
+ */
+export interface SpeechRule {
+	action: 'skip' | 'read' | 'replace';
+	cue: string;
+}
+
+export type SpeechRules = Record<SpeechElement, SpeechRule>;
+
+// Default speech rule for each markdown element
+export const DEFAULT_SPEECH_RULES: SpeechRules = {
+	table: { action: 'replace', cue: 'Table omitted.' },
+	callout: { action: 'read', cue: 'Callout: {text}.' },
+	footnote: { action: 'skip', cue: ', see footnote {text},' },
+	embed: { action: 'replace', cue: 'Embedded {text}.' },
+	image: { action: 'replace', cue: 'Image: {text}.' },
+	link: { action: 'read', cue: 'Link to {text}' },
+	url: { action: 'replace', cue: 'Link to {text}' },
+	html: { action: 'skip', cue: '' },
+	math: { action: 'replace', cue: 'Equation omitted.' },
+	task: { action: 'read', cue: 'Task: {text}' }
+};
+
+// Saved audio files are named "<note>_<timestamp>.<extension>"
+export const SAVED_AUDIO_NAME = /_\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}(\.(wav|ogg))?$/;
+
+/**
+ * Text that remembers the note offset of each of its characters, so the text
+ * being read can be mapped back to the note it came from.
+ */
+export class MappedText {
+	constructor(public text: string, public offsets: number[]) {}
+
+	/**
+	 * Works like String.replace, but the replacement only supports literal text,
+	 * $1-$9 group references and $$ for a dollar sign. Characters taken from a
+	 * group keep their original offsets; literal text maps to the start of the match.
+	 */
+	replace(pattern: RegExp, replacement: string): MappedText {
+		const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+		const replacementParts = replacement.split(/(\$\$|\$\d)/).filter(part => part.length > 0);
+		let text = '';
+		const offsets: number[] = [];
+		let last = 0;
+
+		const append = (value: string, sourceStart: number, mapEachCharacter: boolean) => {
+			text += value;
+			for (let i = 0; i < value.length; i++) {
+				const index = mapEachCharacter ? sourceStart + i : sourceStart;
+				offsets.push(this.offsetAt(index));
+			}
+		};
+
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(this.text)) !== null) {
+			append(this.text.slice(last, match.index), last, true);
+
+			for (const part of replacementParts) {
+				const groupRef = part.match(/^\$(\d)$/);
+				if (part === '$$') {
+					append('$', match.index, false);
+				} else if (groupRef) {
+					const value = match[Number(groupRef[1])];
+					if (!value) continue;
+					const groupStart = match.index + Math.max(0, match[0].indexOf(value));
+					append(value, groupStart, true);
+				} else {
+					append(part, match.index, false);
+				}
+			}
+
+			last = match.index + match[0].length;
+			if (match[0].length === 0) regex.lastIndex++;
+			if (!pattern.global) break;
+		}
+		append(this.text.slice(last), last, true);
+
+		return new MappedText(text, offsets);
+	}
+
+	trim(): MappedText {
+		const start = (this.text.match(/^\s*/) as RegExpMatchArray)[0].length;
+		const end = this.text.length - (this.text.match(/\s*$/) as RegExpMatchArray)[0].length;
+		if (end <= start) {
+			return new MappedText('', []);
+		}
+		return new MappedText(this.text.slice(start, end), this.offsets.slice(start, end));
+	}
+
+	/**
+	 * Returns the note range covered by text[start..end).
+	 */
+	sourceRange(start: number, end: number): { from: number; to: number } {
+		return { from: this.offsetAt(start), to: this.offsetAt(end - 1) + 1 };
+	}
+
+	private offsetAt(index: number): number {
+		if (this.offsets.length === 0) return 0;
+		return this.offsets[Math.max(0, Math.min(index, this.offsets.length - 1))];
+	}
+}
+
+/**
+ * Builds a MappedText piece by piece. Separators between blocks are only
+ * written once more text follows, so skipped elements leave no blank lines.
+ */
+export class MappedTextBuilder {
+	private text = '';
+	private offsets: number[] = [];
+	private pendingSeparator = '';
+	private separatorOffset = 0;
+
+	get length(): number {
+		return this.text.length;
+	}
+
+	get lastCharacter(): string {
+		return this.text.slice(-1);
+	}
+
+	/**
+	 * Appends text taken from the note, starting at offset. Spaces where it
+	 * meets a space already written are dropped, so they are read as one.
+	 */
+	appendSource(value: string, offset: number) {
+		if (!value) return;
+		this.flushSeparator();
+		if (this.lastCharacter === ' ') {
+			const trimmed = value.replace(/^ +/, '');
+			offset += value.length - trimmed.length;
+			value = trimmed;
+		}
+		this.text += value;
+		for (let i = 0; i < value.length; i++) {
+			this.offsets.push(offset + i);
+		}
+	}
+
+	/**
+	 * Appends text that is not in the note, such as a spoken cue. All of it
+	 * maps to offset.
+	 */
+	appendLiteral(value: string, offset: number) {
+		if (!value) return;
+		this.flushSeparator();
+		this.text += value;
+		for (let i = 0; i < value.length; i++) {
+			this.offsets.push(offset);
+		}
+	}
+
+	/**
+	 * Requests a separator before the next appended text. A line break wins
+	 * over a space, and a blank line wins over a line break.
+	 */
+	separate(separator: ' ' | '\n' | '\n\n', offset: number) {
+		if (this.text.length === 0 || separator.length < this.pendingSeparator.length) return;
+		if (separator === ' ' && this.pendingSeparator === '\n') return;
+		this.pendingSeparator = separator;
+		this.separatorOffset = offset;
+	}
+
+	build(): MappedText {
+		return new MappedText(this.text, this.offsets).trim();
+	}
+
+	private flushSeparator() {
+		if (!this.pendingSeparator) return;
+		const separator = this.pendingSeparator;
+		this.pendingSeparator = '';
+		if (separator === ' ' && /\s/.test(this.lastCharacter)) return;
+		this.appendLiteral(separator, this.separatorOffset);
+	}
+}
+
+type MarkdownNodeType =
+	| 'heading' | 'paragraph' | 'codeBlock' | 'mathBlock' | 'comment' | 'table' | 'tableRow' | 'tableCell'
+	| 'callout' | 'blockquote' | 'listItem' | 'footnoteDefinition' | 'thematicBreak'
+	| 'text' | 'emphasis' | 'code' | 'math' | 'link' | 'wikilink' | 'embed' | 'image'
+	| 'footnoteReference' | 'url' | 'html' | 'tag';
+
+/**
+ * A node of the markdown syntax tree. from/to are offsets in the note; text
+ * nodes hold their text in value, starting at from.
+ */
+interface MarkdownNode {
+	type: MarkdownNodeType;
+	from: number;
+	to: number;
+	value?: string;
+	label?: string;
+	checked?: boolean;
+	blankLineBefore?: boolean;
+	title?: MarkdownNode[];
+	children?: MarkdownNode[];
+}
+
+interface SourceLine {
+	text: string;
+	offset: number;
+}
+
+/**
+ * Turns markdown into text meant to be spoken. The note is parsed into a
+ * syntax tree, and each element is then skipped, read, or replaced with a
+ * spoken cue according to the speech rules.
+ */
+export class MarkdownSpeechTransformer {
+	constructor(private rules: SpeechRules, private skipCode: boolean) {}
+
+	transform(markdown: string, baseOffset: number = 0): MappedText {
+		const builder = new MappedTextBuilder();
+		this.renderBlocks(this.parse(markdown, baseOffset), builder);
+		return builder.build();
+	}
+
+	parse(markdown: string, baseOffset: number = 0): MarkdownNode[] {
+		const lines: SourceLine[] = [];
+		let offset = baseOffset;
+		for (const rawLine of markdown.split('\n')) {
+			lines.push({ text: rawLine.replace(/\r$/, ''), offset });
+			offset += rawLine.length + 1;
+		}
+
+		// Frontmatter is only recognised at the very start of the text
+		let start = 0;
+		if (lines.length > 1 && lines[0].text === '---') {
+			const end = lines.findIndex((line, i) => i > 0 && line.text === '---');
+			if (end !== -1) {
+				start = end + 1;
+			}
+		}
+
+		return this.parseBlocks(lines.slice(start));
+	}
+
+	private parseBlocks(lines: SourceLine[]): MarkdownNode[] {
+		const blocks: MarkdownNode[] = [];
+		let blankLineBefore = false;
+		let i = 0;
+
+		while (i < lines.length) {
+			const line = lines[i];
+			const text = line.text;
+			if (!text.trim()) {
+				blankLineBefore = true;
+				i++;
+				continue;
+			}
+
+			let block: MarkdownNode;
+			let next = i + 1;
+			let match: RegExpMatchArray | null;
+
+			if ((match = text.match(/^\s*(`{3,}|~{3,})/))) {
+				const fence = match[1];
+				let end = i + 1;
+				while (end < lines.length && !lines[end].text.trim().startsWith(fence)) end++;
+				block = this.createTextBlock('codeBlock', lines.slice(i + 1, end), line, lines[Math.min(end, lines.length - 1)]);
+				next = end + 1;
+			} else if (/^\s*\$\$/.test(text)) {
+				const inner = text.trim().slice(2);
+				if (inner.trim().endsWith('$$')) {
+					const value = inner.trim().slice(0, -2);
+					block = this.createTextBlock('mathBlock', [{ text: value, offset: line.offset + text.indexOf(value) }], line, line);
+				} else {
+					let end = i + 1;
+					while (end < lines.length && !lines[end].text.includes('$$')) end++;
+					block = this.createTextBlock('mathBlock', lines.slice(i + 1, end), line, lines[Math.min(end, lines.length - 1)]);
+					next = end + 1;
+				}
+			} else if (/^\s*%%/.test(text)) {
+				let end = i;
+				if (!(text.trim().length > 2 && text.trim().endsWith('%%'))) {
+					end = i + 1;
+					while (end < lines.length && !lines[end].text.includes('%%')) end++;
+				}
+				const last = lines[Math.min(end, lines.length - 1)];
+				block = { type: 'comment', from: line.offset, to: last.offset + last.text.length };
+				next = end + 1;
+			} else if (this.isTableStart(lines, i)) {
+				let end = i;
+				while (end < lines.length && lines[end].text.includes('|') && lines[end].text.trim()) end++;
+				block = this.parseTable(lines.slice(i, end));
+				next = end;
+			} else if (/^\s*>/.test(text)) {
+				let end = i;
+				while (end < lines.length && /^\s*>/.test(lines[end].text)) end++;
+				block = this.parseQuote(lines.slice(i, end));
+				next = end;
+			} else if ((match = text.match(/^\[\^([^\]]+)\]:\s*/))) {
+				let end = i + 1;
+				while (end < lines.length && /^(\s{2,}|\t)\S/.test(lines[end].text)) end++;
+				const body = [{ text: text.slice(match[0].length), offset: line.offset + match[0].length }, ...lines.slice(i + 1, end)];
+				const last = lines[end - 1];
+				block = {
+					type: 'footnoteDefinition',
+					from: line.offset,
+					to: last.offset + last.text.length,
+					label: match[1],
+					children: this.parseBlocks(body)
+				};
+				next = end;
+			} else if ((match = text.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/))) {
+				const contentStart = text.indexOf(match[2], match[1].length);
+				block = {
+					type: 'heading',
+					from: line.offset,
+					to: line.offset + text.length,
+					children: this.parseInline(match[2], line.offset + contentStart)
+				};
+			} else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(text)) {
+				block = { type: 'thematicBreak', from: line.offset, to: line.offset + text.length };
+			} else if ((match = text.match(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?/))) {
+				block = {
+					type: 'listItem',
+					from: line.offset,
+					to: line.offset + text.length,
+					checked: match[1] !== undefined ? match[1] !== ' ' : undefined,
+					children: this.parseInline(text.slice(match[0].length), line.offset + match[0].length)
+				};
+			} else {
+				block = {
+					type: 'paragraph',
+					from: line.offset,
+					to: line.offset + text.length,
+					children: this.parseInline(text, line.offset)
+				};
+			}
+
+			block.blankLineBefore = blankLineBefore;
+			blankLineBefore = false;
+			blocks.push(block);
+			i = next;
+		}
+
+		return blocks;
+	}
+
+	private createTextBlock(type: MarkdownNodeType, content: SourceLine[], first: SourceLine, last: SourceLine): MarkdownNode {
+		return {
+			type,
+			from: first.offset,
+			to: last.offset + last.text.length,
+			children: content.map(line => ({ type: 'text', from: line.offset, to: line.offset + line.text.length, value: line.text }))
+		};
+	}
+
+	private isTableStart(lines: SourceLine[], index: number): boolean {
+		if (index + 1 >= lines.length || !lines[index].text.includes('|')) return false;
+		return /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(lines[index + 1].text) && lines[index + 1].text.includes('-');
+	}
+
+	private parseTable(lines: SourceLine[]): MarkdownNode {
+		const rows: MarkdownNode[] = [];
+		lines.forEach((line, index) => {
+			// Skip the separator row under the header
+			if (index === 1) return;
+
+			const cells: MarkdownNode[] = [];
+			const cellPattern = /(?:\\\||[^|])+/g;
+			let match: RegExpExecArray | null;
+			while ((match = cellPattern.exec(line.text)) !== null) {
+				const cellText = match[0];
+				const trimmed = cellText.trim();
+				if (!trimmed) continue;
+				const cellOffset = line.offset + match.index + cellText.indexOf(trimmed);
+				cells.push({
+					type: 'tableCell',
+					from: cellOffset,
+					to: cellOffset + trimmed.length,
+					children: this.parseInline(trimmed, cellOffset)
+				});
+			}
+			rows.push({ type: 'tableRow', from: line.offset, to: line.offset + line.text.length, children: cells });
+		});
+
+		const last = lines[lines.length - 1];
+		return { type: 'table', from: lines[0].offset, to: last.offset + last.text.length, children: rows };
+	}
+
+	private parseQuote(lines: SourceLine[]): MarkdownNode {
+		const stripped = lines.map(line => {
+			const marker = (line.text.match(/^\s*>\s?/) as RegExpMatchArray)[0];
+			return { text: line.text.slice(marker.length), offset: line.offset + marker.length };
+		});
+		const last = lines[lines.length - 1];
+		const from = lines[0].offset;
+		const to = last.offset + last.text.length;
+
+		const callout = stripped[0].text.match(/^\[!([^\]]+)\][+-]?\s*(.*)$/);
+		if (callout) {
+			const title = callout[2].trim();
+			const type = callout[1].trim();
+			const titleOffset = stripped[0].offset + stripped[0].text.length - callout[2].length;
+			return {
+				type: 'callout',
+				from,
+				to,
+				label: title || type.charAt(0).toUpperCase() + type.slice(1).toLowerCase(),
+				title: title ? this.parseInline(callout[2], titleOffset) : undefined,
+				children: this.parseBlocks(stripped.slice(1))
+			};
+		}
+
+		return { type: 'blockquote', from, to, children: this.parseBlocks(stripped) };
+	}
+
+	parseInline(text: string, offset: number): MarkdownNode[] {
+		const nodes: MarkdownNode[] = [];
+		let textStart = 0;
+		let i = 0;
+
+		const flushText = (end: number) => {
+			if (end > textStart) {
+				nodes.push({ type: 'text', from: offset + textStart, to: offset + end, value: text.slice(textStart, end) });
+			}
+		};
+		const pushNode = (node: MarkdownNode, end: number) => {
+			flushText(i);
+			nodes.push(node);
+			i = end;
+			textStart = end;
+		};
+		const textNode = (value: string, start: number): MarkdownNode[] => {
+			return value ? [{ type: 'text', from: offset + start, to: offset + start + value.length, value }] : [];
+		};
+
+		while (i < text.length) {
+			const rest = text.slice(i);
+			const previous = i > 0 ? text[i - 1] : ' ';
+			const from = offset + i;
+			let match: RegExpMatchArray | null;
+			let emphasis: { length: number; close: number } | null;
+
+			if (text[i] === '\\' && /[!-\/:-@\[-`{-~]/.test(text[i + 1] || '')) {
+				// Escaped character, keep it without the backslash
+				pushNode({ type: 'text', from: from + 1, to: from + 2, value: text[i + 1] }, i + 2);
+			} else if ((match = rest.match(/^(%%[\s\S]*?%%|<!--[\s\S]*?-->)/))) {
+				pushNode({ type: 'comment', from, to: from + match[0].length }, i + match[0].length);
+			} else if ((match = rest.match(/^(`+)([\s\S]*?[^`])\1(?!`)/))) {
+				const start = i + match[1].length;
+				pushNode({ type: 'code', from, to: from + match[0].length, children: textNode(match[2], start) }, i + match[0].length);
+			} else if ((match = rest.match(/^\$(?=\S)([^$\n]*?\S)\$(?!\d)/))) {
+				pushNode({ type: 'math', from, to: from + match[0].length, children: textNode(match[1], i + 1) }, i + match[0].length);
+			} else if ((match = rest.match(/^!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/))) {
+				const target = match[1].split('#')[0];
+				const name = (target.split('/').pop() || target).replace(/\.\w+$/, '');
+				pushNode({ type: 'embed', from, to: from + match[0].length, label: name || match[1] }, i + match[0].length);
+			} else if ((match = rest.match(/^!\[([^\]]*)\]\(([^)]*)\)/))) {
+				const fileName = (match[2].split(/[?#]/)[0].split('/').pop() || '').replace(/\.\w+$/, '');
+				pushNode({
+					type: 'image',
+					from,
+					to: from + match[0].length,
+					value: match[2],
+					label: match[1] || fileName,
+					children: textNode(match[1], i + 2)
+				}, i + match[0].length);
+			} else if ((match = rest.match(/^\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/))) {
+				// Read the alias if there is one, otherwise the linked note and heading
+				const label = match[2] !== undefined
+					? textNode(match[2], i + 3 + match[1].length)
+					: textNode(match[1].replace(/#\^?/g, ' ').trim(), i + 2);
+				pushNode({ type: 'wikilink', from, to: from + match[0].length, value: match[1], children: label }, i + match[0].length);
+			} else if ((match = rest.match(/^\[\^([^\]]+)\]/))) {
+				pushNode({ type: 'footnoteReference', from, to: from + match[0].length, label: match[1] }, i + match[0].length);
+			} else if ((match = rest.match(/^\[([^\]]+)\]\(([^)\s]*)(?:\s+"[^"]*")?\)/))) {
+				pushNode({
+					type: 'link',
+					from,
+					to: from + match[0].length,
+					value: match[2],
+					children: this.parseInline(match[1], from + 1)
+				}, i + match[0].length);
+			} else if ((match = rest.match(/^<((?:https?:\/\/|www\.)[^\s<>]+)>/))) {
+				// Autolink, read as a bare URL without its angle brackets
+				pushNode({ type: 'url', from: from + 1, to: from + 1 + match[1].length, value: match[1] }, i + match[0].length);
+			} else if ((match = rest.match(/^<\/?[A-Za-z][^<>]*>/))) {
+				pushNode({ type: 'html', from, to: from + match[0].length, value: match[0] }, i + match[0].length);
+			} else if (/[\s(<]/.test(previous) && (match = rest.match(/^(https?:\/\/|www\.)[^\s<>()]*[^\s<>().,;:!?'"]/))) {
+				pushNode({ type: 'url', from, to: from + match[0].length, value: match[0] }, i + match[0].length);
+			} else if (/\s/.test(previous) && (match = rest.match(/^#([\p{L}\p{N}_\/-]*[\p{L}_\/-][\p{L}\p{N}_\/-]*)/u))) {
+				pushNode({ type: 'tag', from, to: from + match[0].length, children: textNode(match[1], i + 1) }, i + match[0].length);
+			} else if ((emphasis = this.matchEmphasis(text, i))) {
+				const { length, close } = emphasis;
+				pushNode({
+					type: 'emphasis',
+					from,
+					to: offset + close + length,
+					children: this.parseInline(text.slice(i + length, close), from + length)
+				}, close + length);
+			} else {
+				i++;
+			}
+		}
+		flushText(text.length);
+
+		return nodes;
+	}
+
+	/**
+	 * Matches emphasis (*, _, **, __), strikethrough (~~) or highlight (==)
+	 * opening at index. Returns the delimiter length and where the closing
+	 * delimiter starts. Underscores only count at word boundaries, so
+	 * snake_case words are left alone.
+	 */
+	private matchEmphasis(text: string, index: number): { length: number; close: number } | null {
+		const char = text[index];
+		if (!'*_~='.includes(char)) return null;
+
+		const isWordChar = (c: string | undefined) => c !== undefined && /[\p{L}\p{N}]/u.test(c);
+		const lengths = char === '~' || char === '=' ? [2] : [2, 1];
+
+		for (const length of lengths) {
+			const delimiter = char.repeat(length);
+			if (!text.startsWith(delimiter, index)) continue;
+			if (char === '_' && isWordChar(text[index - 1])) return null;
+
+			const contentStart = index + length;
+			if (contentStart >= text.length || /\s/.test(text[contentStart])) continue;
+
+			let search = contentStart + 1;
+			while (search < text.length) {
+				const close = text.indexOf(delimiter, search);
+				if (close === -1) break;
+
+				const runEnd = close + length;
+				const isLongerRun = text[close - 1] === char || text[runEnd] === char;
+				const validClose = !/\s/.test(text[close - 1])
+					&& !(char === '_' && isWordChar(text[runEnd]))
+					&& !(length === 1 && isLongerRun);
+				if (validClose) {
+					return { length, close };
+				}
+				search = close + 1;
+				while (length === 1 && text[search] === char) search++;
+			}
+		}
+		return null;
+	}
+
+	private renderBlocks(blocks: MarkdownNode[], out: MappedTextBuilder, separateFirst: boolean = true) {
+		blocks.forEach((block, index) => {
+			if (index > 0 || separateFirst) {
+				out.separate(block.blankLineBefore ? '\n\n' : '\n', block.from);
+			}
+			this.renderBlock(block, out);
+		});
+	}
+
+	private renderBlock(block: MarkdownNode, out: MappedTextBuilder) {
+		switch (block.type) {
+			case 'heading': {
+				const start = out.length;
+				this.renderInline(block.children, out);
+				// Let the heading end with a pause rather than running into the next line
+				if (out.length > start && !/[.!?:…]/.test(out.lastCharacter)) {
+					out.appendLiteral('.', block.to);
+				}
+				break;
+			}
+			case 'paragraph':
+				this.renderInline(block.children, out);
+				break;
+			case 'codeBlock':
+				if (!this.skipCode) {
+					this.renderLines(block.children, out);
+				}
+				break;
+			case 'mathBlock':
+				this.applyRule('math', block, out, () => this.renderLines(block.children, out));
+				break;
+			case 'table':
+				this.applyRule('table', block, out, () => {
+					for (const row of block.children || []) {
+						out.separate('\n', row.from);
+						(row.children || []).forEach((cell, index) => {
+							if (index > 0) out.appendLiteral(', ', cell.from);
+							this.renderInline(cell.children, out);
+						});
+						out.appendLiteral('.', row.to);
+					}
+				}, block.label);
+				break;
+			case 'callout':
+				this.applyRule('callout', block, out, () => {
+					if (block.title) {
+						this.renderInline(block.title, out);
+					} else {
+						out.appendLiteral(block.label || '', block.from);
+					}
+					out.appendLiteral('.', block.from);
+					out.separate('\n', block.from);
+					this.renderBlocks(block.children || [], out);
+				}, block.label);
+				break;
+			case 'blockquote':
+				this.renderBlocks(block.children || [], out);
+				break;
+			case 'footnoteDefinition':
+				// References are where a cue is spoken, so definitions are only read with the "read" rule
+				if (this.rules.footnote.action === 'read') {
+					out.appendLiteral(`Footnote ${block.label}: `, block.from);
+					this.renderBlocks(block.children || [], out, false);
+				}
+				break;
+			case 'listItem':
+				if (block.checked === undefined) {
+					this.renderInline(block.children, out);
+				} else {
+					this.applyRule('task', block, out, () => this.renderInline(block.children, out));
+				}
+				break;
+			case 'thematicBreak':
+			case 'comment':
+				break;
+		}
+	}
+
+	private renderInline(nodes: MarkdownNode[] | undefined, out: MappedTextBuilder) {
+		for (const node of nodes || []) {
+			switch (node.type) {
+				case 'text':
+					out.appendSource(node.value || '', node.from);
+					break;
+				case 'emphasis':
+				case 'tag':
+					this.renderInline(node.children, out);
+					break;
+				case 'code':
+					if (!this.skipCode) {
+						this.renderInline(node.children, out);
+					}
+					break;
+				case 'math':
+					this.applyRule('math', node, out, () => this.renderInline(node.children, out));
+					break;
+				case 'link':
+				case 'wikilink':
+					this.applyRule('link', node, out, () => this.renderInline(node.children, out));
+					break;
+				case 'embed':
+					// Audio this plugin saved and linked into the note is not read
+					if (SAVED_AUDIO_NAME.test(node.label || '')) break;
+					this.applyRule('embed', node, out, () => out.appendLiteral(node.label || '', node.from), node.label);
+					break;
+				case 'image':
+					this.applyRule('image', node, out, () => this.renderInline(node.children, out), node.label);
+					break;
+				case 'footnoteReference':
+					// Definitions are read in place with the "read" rule, so references only get a cue
+					if (this.rules.footnote.action === 'replace') {
+						this.speakCue(this.rules.footnote.cue, node, out, () => out.appendLiteral(node.label || '', node.from));
+					}
+					break;
+				case 'url':
+					this.applyRule('url', node, out, () => out.appendSource(node.value || '', node.from), this.urlHost(node.value || ''));
+					break;
+				case 'html':
+					if (/^<br\s*\/?>$/i.test(node.value || '')) {
+						out.separate(' ', node.from);
+					} else {
+						this.applyRule('html', node, out, () => out.appendSource(node.value || '', node.from));
+					}
+					break;
+				case 'comment':
+					break;
+			}
+		}
+	}
+
+	private renderLines(lines: MarkdownNode[] | undefined, out: MappedTextBuilder) {
+		(lines || []).forEach((line, index) => {
+			if (index > 0) out.separate('\n', line.from);
+			out.appendSource(line.value || '', line.from);
+		});
+	}
+
+	/**
+	 * Skips, reads or replaces an element according to its speech rule. In a
+	 * cue, {text} is replaced by the element's label, or its text if it has none.
+	 */
+	private applyRule(element: SpeechElement, node: MarkdownNode, out: MappedTextBuilder, read: () => void, label?: string) {
+		const rule = this.rules[element];
+		if (rule.action === 'read') {
+			read();
+		} else if (rule.action === 'replace') {
+			this.speakCue(rule.cue, node, out, label !== undefined ? () => out.appendLiteral(label, node.from) : read);
+		}
+	}
+
+	private speakCue(cue: string, node: MarkdownNode, out: MappedTextBuilder, renderText: () => void) {
+		const parts = cue.split('{text}');
+		parts.forEach((part, index) => {
+			if (index > 0) renderText();
+			out.appendLiteral(part, node.from);
+		});
+	}
+
+	private urlHost(url: string): string {
+		const match = url.match(/^(?:https?:\/\/)?(?:www\.)?([^/?#:]+)/);
+		return match ? match[1] : url;
+	}
+}
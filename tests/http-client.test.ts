@@ -0,0 +1,216 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+	InvalidApiKeyError,
+	ProviderUnreachableError,
+	QuotaExceededError,
+	RequestCancelledError,
+	RequestTimeoutError,
+	TTSHttpClient,
+	TTSRequestError,
+	UnknownVoiceError,
+	parseRetryDelay,
+	toGeminiError
+} from '../http-client';
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+// Requests the mock server received, for counting attempts
+let requests: IncomingMessage[] = [];
+let baseUrl: string;
+
+function reply(status: number, body: unknown = {}, headers: Record<string, string> = {}): Handler {
+	return (req, res) => {
+		res.writeHead(status, { 'Content-Type': 'application/json', Connection: 'close', ...headers });
+		res.end(typeof body === 'string' ? body : JSON.stringify(body));
+	};
+}
+
+function geminiError(code: number, status: string, message: string, reason?: string) {
+	return { error: { code, message, status, details: reason ? [{ reason }] : [] } };
+}
+
+function client(maxRetries = 2, timeoutSeconds = 5): TTSHttpClient {
+	return new TTSHttpClient({ timeoutSeconds, maxRetries });
+}
+
+function send(httpClient: TTSHttpClient, signal?: AbortSignal): Promise<Response> {
+	return httpClient.send(`${baseUrl}/models/test:generateContent`, { method: 'POST', body: '{}' }, toGeminiError, signal);
+}
+
+/**
+ * Runs a test against a local server that answers with handlers, one per
+ * request in order. The client's logging is silenced meanwhile.
+ */
+async function withServer(handlers: Handler[], run: () => Promise<void>) {
+	const server: Server & { closeAllConnections?: () => void } = createServer((req, res) => {
+		requests.push(req);
+		const handler = handlers.shift() || reply(500, 'No response queued');
+		handler(req, res);
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	requests = [];
+
+	const { log, warn, error } = console;
+	console.log = console.warn = console.error = () => undefined;
+	try {
+		await run();
+	} finally {
+		Object.assign(console, { log, warn, error });
+		server.closeAllConnections?.();
+		await new Promise(resolve => server.close(resolve));
+	}
+}
+
+describe('TTSHttpClient', () => {
+	it('returns successful responses', async () => {
+		await withServer([reply(200, { ok: true })], async () => {
+			const response = await send(client());
+			assert.deepEqual(await response.json(), { ok: true });
+			assert.equal(requests.length, 1);
+		});
+	});
+
+	it('retries 429 responses after Retry-After', async () => {
+		await withServer([reply(429, geminiError(429, 'RESOURCE_EXHAUSTED', 'Slow down'), { 'Retry-After': '0' }), reply(200)], async () => {
+			const response = await send(client());
+			assert.equal(response.status, 200);
+			assert.equal(requests.length, 2);
+		});
+	});
+
+	it('retries 5xx responses', async () => {
+		await withServer([
+			reply(503, geminiError(503, 'UNAVAILABLE', 'Overloaded'), { 'Retry-After': '0' }),
+			reply(500, geminiError(500, 'INTERNAL', 'Oops'), { 'Retry-After': '0' }),
+			reply(200)
+		], async () => {
+			const response = await send(client());
+			assert.equal(response.status, 200);
+			assert.equal(requests.length, 3);
+		});
+	});
+
+	it('gives up on 5xx responses after maxRetries', async () => {
+		await withServer([
+			reply(500, geminiError(500, 'INTERNAL', 'Oops'), { 'Retry-After': '0' }),
+			reply(500, geminiError(500, 'INTERNAL', 'Still broken'), { 'Retry-After': '0' })
+		], async () => {
+			await assert.rejects(send(client(1)), (error: TTSRequestError) => {
+				assert.equal(error.constructor, TTSRequestError);
+				assert.equal(error.status, 500);
+				assert.match(error.message, /Still broken/);
+				return true;
+			});
+			assert.equal(requests.length, 2);
+		});
+	});
+
+	it('maps an invalid key to InvalidApiKeyError without retrying', async () => {
+		await withServer([reply(400, geminiError(400, 'INVALID_ARGUMENT', 'API key not valid. Please pass a valid API key.', 'API_KEY_INVALID'))], async () => {
+			await assert.rejects(send(client()), InvalidApiKeyError);
+			assert.equal(requests.length, 1);
+		});
+	});
+
+	it('maps RESOURCE_EXHAUSTED to QuotaExceededError once retries run out', async () => {
+		const body = geminiError(429, 'RESOURCE_EXHAUSTED', 'You exceeded your current quota');
+		await withServer([reply(429, body, { 'Retry-After': '0' }), reply(429, body, { 'Retry-After': '0' })], async () => {
+			await assert.rejects(send(client(1)), QuotaExceededError);
+			assert.equal(requests.length, 2);
+		});
+	});
+
+	it('maps an unknown voice to UnknownVoiceError', async () => {
+		await withServer([reply(400, geminiError(400, 'INVALID_ARGUMENT', 'Voice name Nobody is not supported'))], async () => {
+			await assert.rejects(send(client()), UnknownVoiceError);
+		});
+	});
+
+	it('times out slow responses', async () => {
+		await withServer([(req, res) => {
+			setTimeout(() => reply(200)(req, res), 1000);
+		}], async () => {
+			const started = Date.now();
+			await assert.rejects(send(client(2, 0.2)), RequestTimeoutError);
+			assert.ok(Date.now() - started < 900, 'gave up before the response arrived');
+			assert.equal(requests.length, 1);
+		});
+	});
+
+	it('cancels a request in flight', async () => {
+		await withServer([(req, res) => {
+			setTimeout(() => reply(200)(req, res), 1000);
+		}], async () => {
+			const controller = new AbortController();
+			setTimeout(() => controller.abort(), 50);
+			await assert.rejects(send(client(), controller.signal), RequestCancelledError);
+		});
+	});
+
+	it('cancels while waiting to retry', async () => {
+		await withServer([reply(429, geminiError(429, 'RESOURCE_EXHAUSTED', 'Slow down'), { 'Retry-After': '30' })], async () => {
+			const controller = new AbortController();
+			setTimeout(() => controller.abort(), 100);
+			const started = Date.now();
+			await assert.rejects(send(client(), controller.signal), RequestCancelledError);
+			assert.ok(Date.now() - started < 5000);
+			assert.equal(requests.length, 1);
+		});
+	});
+
+	it('does not send when already cancelled', async () => {
+		await withServer([], async () => {
+			const controller = new AbortController();
+			controller.abort();
+			await assert.rejects(send(client(), controller.signal), RequestCancelledError);
+			assert.equal(requests.length, 0);
+		});
+	});
+
+	it('reports an unreachable server', async () => {
+		await withServer([], async () => {
+			const closed = createServer();
+			await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+			const { port } = closed.address() as AddressInfo;
+			await new Promise(resolve => closed.close(resolve));
+
+			await assert.rejects(
+				client(0).send(`http://127.0.0.1:${port}/`, { method: 'GET' }, toGeminiError),
+				ProviderUnreachableError
+			);
+		});
+	});
+});
+
+describe('parseRetryDelay', () => {
+	const now = Date.parse('2025-06-01T12:00:00Z');
+
+	it('reads Retry-After in seconds', () => {
+		assert.equal(parseRetryDelay('5', '', now), 5000);
+	});
+
+	it('reads Retry-After as an HTTP date', () => {
+		assert.equal(parseRetryDelay('Sun, 01 Jun 2025 12:00:20 GMT', '', now), 20000);
+		assert.equal(parseRetryDelay('Sun, 01 Jun 2025 11:00:00 GMT', '', now), 0);
+	});
+
+	it('caps long Retry-After delays at a minute', () => {
+		assert.equal(parseRetryDelay('3600', '', now), 60000);
+		assert.equal(parseRetryDelay('Mon, 02 Jun 2025 12:00:00 GMT', '', now), 60000);
+	});
+
+	it('falls back to the retryDelay in a Gemini error body', () => {
+		const body = JSON.stringify({ error: { details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12s' }] } });
+		assert.equal(parseRetryDelay(null, body, now), 12000);
+		assert.equal(parseRetryDelay('not a date', body, now), 12000);
+		assert.equal(parseRetryDelay(null, body.replace('12s', '900s'), now), 60000);
+	});
+
+	it('returns null when the server gives no delay', () => {
+		assert.equal(parseRetryDelay(null, '{}', now), null);
+	});
+});
@@ -0,0 +1,135 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { DEFAULT_SPEECH_RULES, MappedText, MappedTextBuilder, MarkdownSpeechTransformer, SpeechElement, SpeechRule, SpeechRules } from '../speech';
+
+const FIXTURES = join(__dirname, 'fixtures', 'speech');
+
+// Fixture notes and the speech rule each one exercises. "code" toggles
+// skipping code rather than a rule; headings and emphasis have no rule.
+const FIXTURE_RULES: [string, SpeechElement | 'code' | null][] = [
+	['heading', null],
+	['emphasis', null],
+	['list', 'task'],
+	['table', 'table'],
+	['callout', 'callout'],
+	['link', 'link'],
+	['embed', 'embed'],
+	['footnote', 'footnote'],
+	['image', 'image'],
+	['url', 'url'],
+	['html', 'html'],
+	['math', 'math'],
+	['code', 'code']
+];
+
+const ACTIONS: SpeechRule['action'][] = ['skip', 'read', 'replace'];
+
+function rulesWith(element: SpeechElement | null, action: SpeechRule['action']): SpeechRules {
+	const rules = {} as SpeechRules;
+	for (const [name, rule] of Object.entries(DEFAULT_SPEECH_RULES)) {
+		rules[name as SpeechElement] = { ...rule };
+	}
+	if (element) rules[element].action = action;
+	return rules;
+}
+
+function readFixture(name: string): string {
+	return readFileSync(join(FIXTURES, name), 'utf8');
+}
+
+describe('MarkdownSpeechTransformer fixtures', () => {
+	for (const [fixture, element] of FIXTURE_RULES) {
+		const markdown = readFixture(`${fixture}.md`);
+
+		if (element === null) {
+			it(`reads ${fixture}.md`, () => {
+				const spoken = new MarkdownSpeechTransformer(rulesWith(null, 'read'), true).transform(markdown);
+				assert.equal(spoken.text, readFixture(`${fixture}.txt`).trimEnd());
+			});
+			continue;
+		}
+
+		for (const action of ACTIONS) {
+			const expected = `${fixture}.${action}.txt`;
+			if (!existsSync(join(FIXTURES, expected))) continue;
+
+			it(`${action} rule on ${fixture}.md`, () => {
+				const transformer = element === 'code'
+					? new MarkdownSpeechTransformer(rulesWith(null, 'read'), action === 'skip')
+					: new MarkdownSpeechTransformer(rulesWith(element, action), true);
+				assert.equal(transformer.transform(markdown).text, readFixture(expected).trimEnd());
+			});
+		}
+	}
+
+	it('reads a line break tag as a single space', () => {
+		const spoken = new MarkdownSpeechTransformer(rulesWith(null, 'read'), true).transform('One <br> two<br/>three');
+		assert.equal(spoken.text, 'One two three');
+	});
+
+	it('uses custom cues with {text}', () => {
+		const rules = rulesWith('embed', 'replace');
+		rules.embed.cue = 'See the {text} file.';
+		const spoken = new MarkdownSpeechTransformer(rules, true).transform('![[Plans/Budget.pdf]]');
+		assert.equal(spoken.text, 'See the Budget file.');
+	});
+});
+
+describe('MarkdownSpeechTransformer offsets', () => {
+	it('maps spoken text back to the note', () => {
+		const markdown = '# Title\n\nSome **bold** text and [a link](https://example.com).';
+		const spoken = new MarkdownSpeechTransformer(rulesWith(null, 'read'), true).transform(markdown);
+		assert.equal(spoken.text, 'Title.\n\nSome bold text and a link.');
+
+		const bold = spoken.text.indexOf('bold');
+		const { from, to } = spoken.sourceRange(bold, bold + 'bold'.length);
+		assert.equal(markdown.slice(from, to), 'bold');
+
+		const link = spoken.text.indexOf('a link');
+		const range = spoken.sourceRange(link, link + 'a link'.length);
+		assert.equal(markdown.slice(range.from, range.to), 'a link');
+	});
+
+	it('adds baseOffset to every offset', () => {
+		const spoken = new MarkdownSpeechTransformer(rulesWith(null, 'read'), true).transform('Hello', 100);
+		assert.deepEqual(spoken.sourceRange(0, 5), { from: 100, to: 105 });
+	});
+});
+
+describe('MappedText', () => {
+	it('keeps the offsets of characters taken from groups', () => {
+		const text = new MappedText('say [hi] now', Array.from({ length: 12 }, (_, i) => i));
+		const replaced = text.replace(/\[(\w+)\]/, '$1!');
+		assert.equal(replaced.text, 'say hi! now');
+		assert.deepEqual(replaced.offsets.slice(4, 7), [5, 6, 4]);
+	});
+
+	it('trims whitespace along with its offsets', () => {
+		const trimmed = new MappedText('  hi ', [0, 1, 2, 3, 4]).trim();
+		assert.equal(trimmed.text, 'hi');
+		assert.deepEqual(trimmed.offsets, [2, 3]);
+	});
+});
+
+describe('MappedTextBuilder', () => {
+	it('only writes separators between text', () => {
+		const builder = new MappedTextBuilder();
+		builder.separate('\n', 0);
+		builder.appendSource('One', 0);
+		builder.separate('\n', 4);
+		builder.separate('\n\n', 4);
+		builder.appendSource('Two', 5);
+		builder.separate('\n', 9);
+		const built = builder.build();
+		assert.equal(built.text, 'One\n\nTwo');
+		assert.deepEqual(built.offsets, [0, 1, 2, 4, 4, 5, 6, 7]);
+	});
+
+	it('maps literal text to a single offset', () => {
+		const builder = new MappedTextBuilder();
+		builder.appendLiteral('Cue', 7);
+		assert.deepEqual(builder.build().offsets, [7, 7, 7]);
+	});
+});